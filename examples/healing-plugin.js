@@ -0,0 +1,70 @@
+/**
+ * Example: Project-specific self-healing strategies
+ *
+ * List this module in qa.config.json to register its strategies:
+ *
+ *   { "healing": { "plugins": ["./examples/healing-plugin.js"] } }
+ *
+ * Plain JavaScript (CommonJS), so it loads from the built CLI in dist/
+ * as well as under ts-node.
+ *
+ * Strategies run by ascending priority next to the built-in ones
+ * (fallback 10, fingerprint 20, text-content 30, placeholder 40, role 50,
+ * partial-selector 60). Check the order with `heal:strategies`.
+ */
+
+/**
+ * Match by data-testid - taken from the recorded element, the object
+ * attributes or the broken selector itself
+ *
+ * @type {import('../src/healing/selfHealing').HealingStrategy}
+ */
+const dataTestId = {
+  name: 'data-testid',
+  priority: 5, // Before the fallbacks: test ids are the most stable locator we have
+  platform: 'web',
+  findElement: async (page, { locator, attributes, fingerprint }) => {
+    const testId = (fingerprint && fingerprint.attributes['data-testid'])
+      || (attributes && attributes['data-testid'])
+      || (locator.value.match(/data-testid=["']?([^"'\]]+)/) || [])[1];
+    if (!testId) {
+      return null;
+    }
+
+    const element = page.getByTestId(testId);
+    return await element.count() === 1
+      ? { element, locator: { type: 'css', value: `[data-testid="${testId}"]` } }
+      : null;
+  }
+};
+
+/**
+ * Match a form field by the label text next to it
+ *
+ * @type {import('../src/healing/selfHealing').HealingStrategy}
+ */
+const labelNextToField = {
+  name: 'label-next-to-field',
+  priority: 35,
+  platform: 'web',
+  findElement: async (page, { attributes, fingerprint }) => {
+    const label = (fingerprint && fingerprint.labels[0]) || (attributes && attributes.label);
+    if (!label) {
+      return null;
+    }
+
+    // <label for=...> / aria-labelledby first - suggested by the field's id
+    const labelled = page.getByLabel(label, { exact: true });
+    const id = await labelled.count() === 1 ? await labelled.getAttribute('id') : null;
+    if (id) {
+      return { element: labelled, locator: { type: 'css', value: `[id="${id}"]` } };
+    }
+
+    // Otherwise the first field after an element with the label text
+    const xpath = `//*[normalize-space(text())="${label}"]/following::*[self::input or self::select or self::textarea][1]`;
+    const element = page.locator(`xpath=${xpath}`);
+    return await element.count() === 1 ? { element, locator: { type: 'xpath', value: xpath } } : null;
+  }
+};
+
+module.exports = { strategies: [dataTestId, labelNextToField] };
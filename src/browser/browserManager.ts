@@ -1,4 +1,5 @@
-import { chromium, Browser, BrowserContext, Page, BrowserServer } from 'playwright';
+import { chromium, firefox, webkit, Browser, BrowserContext, BrowserContextOptions, Page, BrowserServer } from 'playwright';
+import { BrowserLaunchOptions } from '../types';
 import * as fs from 'fs';
 import * as path from 'path';
 import { spawn } from 'child_process';
@@ -17,6 +18,8 @@ class BrowserManager {
   private cdpEndpointFile = path.join(process.cwd(), '.browser-cdp-endpoint');
   private userDataDir = path.join(process.cwd(), '.browser-data');
   private isConnectedViaCDP = false; // Track if browser is from CDP connection
+  private launchOptions: BrowserLaunchOptions | null = null; // Set for direct launch mode
+  private pendingBrowser: Promise<Browser> | null = null; // Launch or connect in progress
 
   private constructor() {}
 
@@ -27,6 +30,19 @@ class BrowserManager {
     return BrowserManager.instance;
   }
 
+  /**
+   * Switch to direct launch mode: launch the given engine ourselves (optionally
+   * headless) instead of connecting to the persistent browser server.
+   * Takes effect on the next getBrowser() call.
+   */
+  configure(options: BrowserLaunchOptions): void {
+    this.launchOptions = { browser: 'chromium', headless: false, ...options };
+  }
+
+  getLaunchOptions(): BrowserLaunchOptions | null {
+    return this.launchOptions;
+  }
+
   private saveCdpEndpoint(endpoint: string): void {
     fs.writeFileSync(this.cdpEndpointFile, endpoint, 'utf-8');
   }
@@ -59,6 +75,20 @@ class BrowserManager {
       return this.browser;
     }
 
+    // Concurrent callers (e.g. parallel workers) share the launch or connect in progress
+    if (!this.pendingBrowser) {
+      this.pendingBrowser = this.openBrowser().finally(() => {
+        this.pendingBrowser = null;
+      });
+    }
+    return this.pendingBrowser;
+  }
+
+  private async openBrowser(): Promise<Browser> {
+    if (this.launchOptions) {
+      return this.launchDirect(this.launchOptions);
+    }
+
     // Try to connect to persistent browser server with retries
     const savedEndpoint = this.loadCdpEndpoint();
     if (savedEndpoint) {
@@ -113,6 +143,35 @@ class BrowserManager {
     return this.browser;
   }
 
+  private async launchDirect(options: BrowserLaunchOptions): Promise<Browser> {
+    const engines = { chromium, firefox, webkit };
+    const name = options.browser || 'chromium';
+    const engine = engines[name];
+    if (!engine) {
+      throw new Error(`Unknown browser: ${name} (expected chromium, firefox or webkit)`);
+    }
+
+    console.log(`🌐 Launching ${name}${options.headless ? ' (headless)' : ''}...`);
+    this.browser = await engine.launch({
+      headless: !!options.headless,
+      args: name === 'chromium' && !options.headless ? ['--start-maximized'] : [],
+      timeout: 30000
+    });
+
+    this.isConnectedViaCDP = false;
+    console.log(`✅ ${name} launched`);
+    return this.browser;
+  }
+
+  /**
+   * Headed browsers use the full window size; headless ones get a fixed desktop viewport
+   */
+  private contextOptions(): BrowserContextOptions {
+    return this.launchOptions?.headless
+      ? { viewport: { width: 1920, height: 1080 } }
+      : { viewport: null };  // null viewport means use full window size
+  }
+
   async getContext(): Promise<BrowserContext> {
     if (!this.context) {
       const browser = await this.getBrowser();
@@ -124,14 +183,22 @@ class BrowserManager {
         this.context = existingContexts[0];
       } else {
         console.log('📄 Creating new browser context...');
-        this.context = await browser.newContext({
-          viewport: null  // null viewport means use full window size
-        });
+        this.context = await browser.newContext(this.contextOptions());
       }
     }
     return this.context;
   }
 
+  /**
+   * Fresh context on the shared browser (own cookies, storage and pages).
+   * Used by parallel workers; the caller is responsible for closing it.
+   */
+  async newIsolatedContext(options: BrowserContextOptions = {}): Promise<BrowserContext> {
+    const browser = await this.getBrowser();
+    console.log('📄 Creating isolated browser context...');
+    return browser.newContext({ ...this.contextOptions(), ...options });
+  }
+
   async getPage(): Promise<Page> {
     const context = await this.getContext();
     const pages = context.pages();
@@ -1,7 +1,23 @@
-import { TestCase, TestAction, ActionType } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { TestCase, TestAction, ActionType, ElementLocator, StoreVariableSpec, CallStepSpec } from '../types';
+import { parseVariableAssignments } from '../executor/variables';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * Condition for IF / WHILE blocks and `loop.while`.
+ * Values may contain ${variable} placeholders.
+ */
+export interface StepCondition {
+  type: 'elementExists' | 'elementNotExists' | 'textMatches' | 'variableEquals';
+  target?: ElementLocator;  // Element for elementExists / elementNotExists / textMatches (page URL if omitted)
+  timeout?: number;         // Wait up to this long (ms) for the element to appear
+  pattern?: string;         // Regex for textMatches
+  variable?: string;        // Variable name for variableEquals
+  value?: any;              // Expected value for variableEquals
+  negate?: boolean;         // Invert the result
+}
+
 export interface TestStepOptions {
   waitBefore?: number;      // Wait time before executing (ms)
   waitAfter?: number;       // Wait time after executing (ms)
@@ -10,8 +26,9 @@ export interface TestStepOptions {
   timeout?: number;         // Maximum time for step execution (ms)
   loop?: {                  // Loop configuration
     count?: number;         // Number of times to repeat (default: 1)
-    while?: string;         // Condition to check (not implemented yet)
-    data?: any[];          // Array of data for data-driven testing
+    while?: StepCondition;  // Repeat while the condition holds
+    maxIterations?: number; // Guard for while loops (default: 100)
+    data?: any[] | string; // Rows (or a CSV/JSON dataset path) - one iteration per row
   };
   validation?: {           // Data validation
     type: 'equals' | 'contains' | 'regex' | 'exists' | 'notExists';
@@ -23,10 +40,16 @@ export interface TestStepOptions {
 export interface EnhancedTestAction extends TestAction {
   options?: TestStepOptions;
   enabled?: boolean;        // Can disable steps without deleting
+  condition?: StepCondition;            // IF / WHILE blocks
+  steps?: EnhancedTestAction[];         // IF then-branch, WHILE body
+  elseSteps?: EnhancedTestAction[];     // IF else-branch
+  maxIterations?: number;               // WHILE guard (default: 100)
 }
 
 export interface EnhancedTestCase extends Omit<TestCase, 'actions'> {
   actions: EnhancedTestAction[];
+  variables?: Record<string, any>;  // Test-level variables, referenced as ${name}
+  dataset?: string;                 // CSV/JSON dataset - the test runs once per row
 }
 
 export class TestEditor {
@@ -73,21 +96,38 @@ export class TestEditor {
     console.log(`   Platform: ${this.testCase.platform}`);
     console.log(`   Total Steps: ${this.testCase.actions.length}\n`);
 
-    this.testCase.actions.forEach((action, index) => {
+    this.printSteps(this.testCase.actions, '', '  ');
+    console.log('');
+  }
+
+  private printSteps(actions: EnhancedTestAction[], labelPrefix: string, indent: string): void {
+    actions.forEach((action, index) => {
+      const label = `${labelPrefix}${index + 1}`;
       const enabled = action.enabled !== false ? '✓' : '✗';
       const loop = action.options?.loop?.count ? ` [Loop: ${action.options.loop.count}x]` : '';
       const continueOnFail = action.options?.continueOnFailure ? ' [Continue on Fail]' : '';
 
-      console.log(`  ${index + 1}. ${enabled} ${action.description}${loop}${continueOnFail}`);
+      console.log(`${indent}${label}. ${enabled} ${action.description}${loop}${continueOnFail}`);
 
       if (action.options?.waitBefore) {
-        console.log(`      ⏱️  Wait Before: ${action.options.waitBefore}ms`);
+        console.log(`${indent}    ⏱️  Wait Before: ${action.options.waitBefore}ms`);
       }
       if (action.options?.validation) {
-        console.log(`      ✓ Validation: ${action.options.validation.type} - ${action.options.validation.expected}`);
+        console.log(`${indent}    ✓ Validation: ${action.options.validation.type} - ${action.options.validation.expected}`);
+      }
+
+      if (action.type === ActionType.CALL) {
+        console.log(`${indent}    ↪ ${(action.value as CallStepSpec).testCase}`);
+      }
+
+      if (action.type === ActionType.IF || action.type === ActionType.WHILE) {
+        this.printSteps(action.steps || [], `${label}.`, `${indent}    `);
+        if (action.elseSteps?.length) {
+          console.log(`${indent}    else:`);
+          this.printSteps(action.elseSteps, `${label}.`, `${indent}    `);
+        }
       }
     });
-    console.log('');
   }
 
   /**
@@ -253,6 +293,65 @@ export class TestEditor {
     console.log(`✅ Retry count set for step ${stepIndex + 1}: ${retries} retries`);
   }
 
+  /**
+   * Insert a step that stores an element's text/value/attribute (or the URL) in a variable
+   */
+  addStoreVariable(position: number, spec: StoreVariableSpec, selector?: string): void {
+    const target = selector
+      ? { type: (selector.startsWith('/') ? 'xpath' : 'css') as 'xpath' | 'css', value: selector }
+      : undefined;
+
+    this.addStep({
+      id: uuidv4(),
+      timestamp: Date.now(),
+      platform: this.testCase.platform,
+      type: ActionType.STORE_VARIABLE,
+      target,
+      value: spec,
+      description: `Store ${spec.source}${spec.attribute ? ` "${spec.attribute}"` : ''}${selector ? ` of ${selector}` : ''} in \${${spec.variable}}`
+    }, position);
+  }
+
+  /**
+   * Insert a step that runs another test case inline
+   */
+  addCall(position: number, spec: CallStepSpec): void {
+    const params = Object.keys(spec.params || {});
+
+    this.addStep({
+      id: uuidv4(),
+      timestamp: Date.now(),
+      platform: this.testCase.platform,
+      type: ActionType.CALL,
+      value: spec,
+      description: `Call ${path.basename(spec.testCase, '.json')}${params.length ? ` (${params.join(', ')})` : ''}`
+    }, position);
+  }
+
+  /**
+   * Wrap steps `fromIndex`..`toIndex` (inclusive) into an IF or WHILE block
+   */
+  wrapInBlock(fromIndex: number, toIndex: number, type: ActionType.IF | ActionType.WHILE, condition: StepCondition): void {
+    if (fromIndex < 0 || toIndex >= this.testCase.actions.length || fromIndex > toIndex) {
+      throw new Error(`Invalid step range: ${fromIndex + 1}-${toIndex + 1}`);
+    }
+
+    const steps = this.testCase.actions.splice(fromIndex, toIndex - fromIndex + 1);
+    const block: EnhancedTestAction = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      platform: this.testCase.platform,
+      type,
+      condition,
+      steps,
+      description: `${type === ActionType.IF ? 'If' : 'While'} ${describeCondition(condition)}`,
+      enabled: true
+    };
+
+    this.testCase.actions.splice(fromIndex, 0, block);
+    console.log(`✅ Steps ${fromIndex + 1}-${toIndex + 1} wrapped in ${type} block`);
+  }
+
   /**
    * Move a step to a new position
    */
@@ -287,6 +386,20 @@ export class TestEditor {
   }
 }
 
+function describeCondition(condition: StepCondition): string {
+  const negate = condition.negate ? 'not ' : '';
+  switch (condition.type) {
+    case 'elementExists':
+      return `${negate}exists: ${condition.target?.value}`;
+    case 'elementNotExists':
+      return `${negate}not exists: ${condition.target?.value}`;
+    case 'textMatches':
+      return `${condition.target?.value || 'url'} ${negate}matches /${condition.pattern}/`;
+    case 'variableEquals':
+      return `\${${condition.variable}} ${negate}== ${condition.value}`;
+  }
+}
+
 // CLI usage
 if (require.main === module) {
   const args = process.argv.slice(2);
@@ -337,11 +450,24 @@ Commands:
   retry <test-file> <step-index> <count>
     Set retry count for a step
 
+  store <test-file> <position> <variable> <text|value|attribute|url> [selector] [attribute]
+    Insert a step that saves a value from the page into \${variable}
+
+  if <test-file> <from> <to> <exists|not-exists> <selector>
+  while <test-file> <from> <to> <exists|not-exists> <selector>
+    Wrap steps from..to in a conditional block
+
+  call <test-file> <position> <module-file> [key=value...]
+    Insert a step that runs another test case with the given parameters
+
 Examples:
   ts-node src/editor/testEditor.ts list recordings/test.json
   ts-node src/editor/testEditor.ts loop recordings/test.json 2 5
   ts-node src/editor/testEditor.ts wait recordings/test.json 1 1000 500
   ts-node src/editor/testEditor.ts continue-on-fail recordings/test.json 3 true
+  ts-node src/editor/testEditor.ts store recordings/test.json 8 docNumber text "#doc-no"
+  ts-node src/editor/testEditor.ts if recordings/test.json 2 3 exists "#cookie-banner"
+  ts-node src/editor/testEditor.ts call recordings/test.json 1 shared/login.json username=admin
     `);
     process.exit(0);
   }
@@ -407,6 +533,46 @@ Examples:
       editor.save();
       break;
 
+    case 'store':
+      const storePosition = parseInt(args[2]) - 1;
+      const source = args[4] as StoreVariableSpec['source'];
+      if (!['text', 'value', 'attribute', 'url'].includes(source)) {
+        console.log(`Invalid source: ${args[4]} (expected text, value, attribute or url)`);
+        process.exit(1);
+      }
+      editor.addStoreVariable(storePosition, {
+        variable: args[3],
+        source,
+        attribute: args[6]
+      }, args[5]);
+      editor.save();
+      break;
+
+    case 'if':
+    case 'while':
+      const blockFrom = parseInt(args[2]) - 1;
+      const blockTo = parseInt(args[3]) - 1;
+      const blockSelector = args[5];
+      if (!['exists', 'not-exists'].includes(args[4]) || !blockSelector) {
+        console.log(`Invalid condition: expected exists|not-exists <selector>`);
+        process.exit(1);
+      }
+      editor.wrapInBlock(blockFrom, blockTo, command === 'if' ? ActionType.IF : ActionType.WHILE, {
+        type: args[4] === 'exists' ? 'elementExists' : 'elementNotExists',
+        target: { type: blockSelector.startsWith('/') ? 'xpath' : 'css', value: blockSelector }
+      });
+      editor.save();
+      break;
+
+    case 'call':
+      const callPosition = parseInt(args[2]) - 1;
+      editor.addCall(callPosition, {
+        testCase: args[3],
+        params: parseVariableAssignments(args.slice(4))
+      });
+      editor.save();
+      break;
+
     default:
       console.log(`Unknown command: ${command}`);
   }
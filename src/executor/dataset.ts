@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type DataRow = Record<string, any>;
+
+/**
+ * Load a dataset for data-driven execution.
+ * Supports CSV files (first line is the header) and JSON files containing
+ * either an array of objects or `{ "rows": [...] }`.
+ *
+ * Relative paths are looked up in each of `baseDirs`, then the working directory.
+ */
+export function loadDataset(source: string, baseDirs: string[] = []): DataRow[] {
+  const filePath = resolveDatasetPath(source, baseDirs);
+  const content = fs.readFileSync(filePath, 'utf-8');
+
+  const rows = path.extname(filePath).toLowerCase() === '.csv'
+    ? parseCsv(content)
+    : parseJsonRows(content, filePath);
+
+  console.log(`📑 Loaded dataset: ${filePath} (${rows.length} row(s))`);
+  return rows;
+}
+
+/**
+ * Short label describing a row, used in result names: "[user=bob, qty=3]"
+ */
+export function formatDataRow(row: DataRow, maxLength: number = 80): string {
+  const label = Object.entries(row)
+    .map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`)
+    .join(', ');
+
+  return `[${label.length > maxLength ? label.substring(0, maxLength - 3) + '...' : label}]`;
+}
+
+function resolveDatasetPath(source: string, baseDirs: string[]): string {
+  if (path.isAbsolute(source)) {
+    if (!fs.existsSync(source)) {
+      throw new Error(`Dataset not found: ${source}`);
+    }
+    return source;
+  }
+
+  const candidates = [...baseDirs.map(dir => path.join(dir, source)), path.resolve(source)];
+  const found = candidates.find(candidate => fs.existsSync(candidate));
+  if (!found) {
+    throw new Error(`Dataset not found: ${source} (looked in ${candidates.join(', ')})`);
+  }
+  return found;
+}
+
+function parseJsonRows(content: string, filePath: string): DataRow[] {
+  const data = JSON.parse(content);
+  const rows = Array.isArray(data) ? data : data?.rows;
+
+  if (!Array.isArray(rows)) {
+    throw new Error(`Dataset ${filePath} must be an array of rows or an object with a "rows" array`);
+  }
+
+  return rows.map(row => (row !== null && typeof row === 'object' ? row : { value: row }));
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+ */
+export function parseCsv(content: string): DataRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+
+  const headers = nonEmpty[0].map(h => h.trim());
+  return nonEmpty.slice(1).map(values => {
+    const row: DataRow = {};
+    headers.forEach((header, index) => {
+      row[header] = values[index] ?? '';
+    });
+    return row;
+  });
+}
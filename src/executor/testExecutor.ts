@@ -1,103 +1,995 @@
-import { chromium, Browser as PlaywrightBrowser } from 'playwright';
 import { remote } from 'webdriverio';
 import type { Browser } from 'webdriverio';
-import { mouse, keyboard, screen } from '@nut-tree-fork/nut-js';
-import { TestCase, TestAction, ExecutionResult, StepResult, ActionType, PlatformType } from '../types';
+import type { BrowserContext, Page } from 'playwright';
+import { mouse, keyboard, screen, FileType } from '@nut-tree-fork/nut-js';
+import { TestAction, ExecutionResult, ExecutionLog, StepResult, ActionType, PlatformType, StoreVariableSpec, CallStepSpec, ArtifactOptions, ArtifactMode, ElementLocator, HealingMode, StepHealing } from '../types';
+import { EnhancedTestCase, EnhancedTestAction, StepCondition } from '../editor/testEditor';
 import { browserManager } from '../browser/browserManager';
+import { SelfHealingEngine, HealingResult } from '../healing/selfHealing';
+import { collectHealingSuggestions, applyHealingSuggestions } from '../healing/healingUpdates';
+import { loadHealingPlugins } from '../healing/healingPlugins';
+import { ObjectRepositoryManager } from '../repository/objectRepository';
+import { VariableStore, loadEnvironment } from './variables';
+import { loadDataset, formatDataRow } from './dataset';
+import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
 
+export interface EnhancedStepResult extends StepResult {
+  retries?: number;
+  iterations?: number;
+  logs?: ExecutionLog[];
+  validationResult?: {
+    passed: boolean;
+    expected: any;
+    actual: any;
+  };
+  skipped?: boolean;
+  continueOnFailure?: boolean;
+  branch?: 'then' | 'else';           // Branch taken by an IF block
+  children?: EnhancedStepResult[];     // Results of steps nested in a block
+}
+
+export interface EnhancedExecutionResult extends ExecutionResult {
+  steps: EnhancedStepResult[];
+  logs: ExecutionLog[];
+}
+
+// Guard for while loops that never become false
+const DEFAULT_MAX_ITERATIONS = 100;
+
+// How long the original locator of a healed step may take to appear before healing starts
+const HEALING_WAIT_TIMEOUT = 8000;
+
+/**
+ * Failure raised from inside a block; the message already names the nested step
+ */
+class NestedStepError extends Error {}
+
+export interface ExecutorOptions {
+  environment?: string;                     // Environment name or file (environments/<name>.json)
+  suiteVariables?: Record<string, any>;     // Variables defined on the suite
+  variables?: Record<string, any>;          // Run-level overrides (e.g. --var on the CLI)
+  isolatedContext?: boolean;                // Use a private BrowserContext instead of the shared page (parallel workers)
+  artifacts?: ArtifactOptions;              // Playwright trace / video recording for web tests
+  healing?: HealingMode;                    // Self-healing of broken locators (default: suggest)
+  healingThreshold?: number;                // Minimum fingerprint similarity for a healed element (0..1)
+  deferHealingWrites?: boolean;             // Auto healing: leave write-backs to the caller (parallel suite runs)
+  repository?: string;                      // Object repository file for steps with an objectId
+  config?: string;                          // Project config with healing plugins (default ./qa.config.json)
+}
+
+/**
+ * Single execution engine for recorded and edited test cases.
+ * Runs web, desktop and mobile steps and honors every TestStepOptions
+ * field (disabled steps, waits, loops, retries, timeouts, validation
+ * and continueOnFailure).
+ */
 export class TestExecutor {
   private mobileBrowser: Browser | null = null;
-  private results: ExecutionResult[] = [];
+  private results: EnhancedExecutionResult[] = [];
+  private currentLogs: ExecutionLog[] = [];
+  private variables = new VariableStore();
+  private environmentName?: string;
+  private currentTestDir?: string;
+  private currentTestFile?: string;
+  private healingEngine = new SelfHealingEngine();
+  private callStack: string[] = [];
+  private isolatedContext = false;
+  private context: BrowserContext | null = null;
+  private artifacts: ArtifactOptions;
+  private recording = false;
+  private currentTestName = '';
+  private closeAfterRecording = false;
+  private healingMode: HealingMode;
+  private deferHealingWrites: boolean;
+  private repositoryPath?: string;
+  private objectRepository?: ObjectRepositoryManager;
+  private stepHealing?: StepHealing;
+
+  constructor(options: ExecutorOptions = {}) {
+    if (options.environment) {
+      const environment = loadEnvironment(options.environment);
+      this.environmentName = environment.name;
+      this.variables.setScope('environment', environment.variables);
+      console.log(`🌍 Environment: ${environment.name} (${Object.keys(environment.variables).length} variable(s))`);
+    }
+    this.variables.setScope('suite', options.suiteVariables);
+    this.variables.setScope('run', options.variables);
+    this.isolatedContext = !!options.isolatedContext;
+    this.artifacts = {
+      stepSnapshots: 'retain-on-failure',
+      ...options.artifacts,
+      outputDir: options.artifacts?.outputDir || './reports/artifacts',
+      runName: options.artifacts?.runName || `run-${new Date().toISOString().replace(/[:.]/g, '-')}`
+    };
+    this.healingMode = options.healing || 'suggest';
+    this.deferHealingWrites = !!options.deferHealingWrites;
+    this.repositoryPath = options.repository;
+    if (this.healingMode === 'off') {
+      this.healingEngine.setHealingEnabled(false);
+    }
+    if (options.healingThreshold !== undefined) {
+      this.healingEngine.setConfidenceThreshold(options.healingThreshold);
+    }
+    loadHealingPlugins(this.healingEngine, options.config);
+  }
 
-  async executeTestCase(testCase: TestCase): Promise<ExecutionResult> {
-    console.log(`\n🚀 Executing Test Case: ${testCase.name}`);
-    console.log(`📝 Description: ${testCase.description}`);
-    console.log(`🔧 Platform: ${testCase.platform.toUpperCase()}`);
-    console.log(`📊 Total Steps: ${testCase.actions.length}\n`);
+  getEnvironmentName(): string | undefined {
+    return this.environmentName;
+  }
 
-    const startTime = Date.now();
-    const stepResults: StepResult[] = [];
-    let hasError = false;
-    let errorMessage = '';
+  getVariables(): VariableStore {
+    return this.variables;
+  }
+
+  /**
+   * Close the private browser context of an isolated executor
+   */
+  async dispose(): Promise<void> {
+    if (this.context) {
+      await this.context.close();
+      this.context = null;
+    }
+  }
+
+  /**
+   * Page for web steps: the shared browserManager page, or a page in this
+   * executor's own context when running isolated
+   */
+  private async getPage(): Promise<Page> {
+    if (!this.isolatedContext && !this.context) {
+      return browserManager.getPage();
+    }
+
+    const context = await this.getContext();
+    return context.pages()[0] || await context.newPage();
+  }
+
+  private async getContext(): Promise<BrowserContext> {
+    if (this.context) {
+      return this.context;
+    }
+    if (!this.isolatedContext) {
+      return browserManager.getContext();
+    }
+
+    if (!this.context) {
+      this.context = await browserManager.newIsolatedContext();
+    }
+    return this.context;
+  }
+
+  /**
+   * Start trace / video recording for a web test case. Video needs a fresh
+   * context created with recordVideo, so the test runs in its own context.
+   */
+  private async startRecording(): Promise<void> {
+    const { trace = 'off', video = 'off' } = this.artifacts;
+    if (trace === 'off' && video === 'off') {
+      return;
+    }
+
+    if (video !== 'off') {
+      await this.dispose();
+      this.context = await browserManager.newIsolatedContext({ recordVideo: { dir: this.artifactPath('') } });
+      if (this.currentTestDir) {
+        await this.ensureBrowserReady(this.currentTestDir);
+      }
+    }
+
+    if (trace !== 'off') {
+      const context = await this.getContext();
+      await context.tracing.start({ screenshots: true, snapshots: true });
+    }
+
+    this.recording = true;
+    this.closeAfterRecording = false;
+  }
+
+  /**
+   * Stop recording and keep the trace / video according to their mode.
+   * Returns the paths of the kept files.
+   */
+  private async stopRecording(failed: boolean): Promise<{ trace?: string; video?: string }> {
+    if (!this.recording) {
+      return {};
+    }
+
+    const { trace = 'off', video = 'off' } = this.artifacts;
+    const keep = (mode: ArtifactMode) => mode === 'on' || (mode === 'retain-on-failure' && failed);
+    const stamp = Date.now();
+    const recorded: { trace?: string; video?: string } = {};
+    this.recording = false;
 
-    // Initialize platform-specific driver
     try {
-      await this.initializePlatform(testCase.platform);
+      if (trace !== 'off') {
+        const context = await this.getContext();
+        if (keep(trace)) {
+          recorded.trace = this.artifactPath(`trace-${stamp}.zip`);
+          await context.tracing.stop({ path: recorded.trace });
+          this.log('info', `Trace saved: ${recorded.trace}`);
+        } else {
+          await context.tracing.stop();
+        }
+      }
 
-      // Execute each action
-      for (let i = 0; i < testCase.actions.length; i++) {
-        const action = testCase.actions[i];
-        console.log(`⚡ Step ${i + 1}/${testCase.actions.length}: ${action.description}`);
+      if (video !== 'off' && this.context) {
+        const videos = this.context.pages().map(page => page.video()).filter(Boolean);
+        await this.dispose(); // Video files are finalized when the context closes
 
-        const stepStartTime = Date.now();
-        let stepStatus: 'passed' | 'failed' | 'skipped' = 'passed';
-        let stepError: string | undefined;
+        for (const [index, pageVideo] of videos.entries()) {
+          if (keep(video)) {
+            const videoPath = this.artifactPath(`video-${stamp}${index > 0 ? `-${index + 1}` : ''}.webm`);
+            await pageVideo!.saveAs(videoPath);
+            recorded.video = recorded.video || videoPath;
+            this.log('info', `Video saved: ${videoPath}`);
+          }
+          await pageVideo!.delete();
+        }
+      }
+    } catch (error: any) {
+      this.log('warn', `Could not save recording: ${error.message}`);
+    }
 
-        try {
-          await this.executeAction(action, testCase.platform);
-          console.log(`   ✅ Passed (${Date.now() - stepStartTime}ms)`);
-        } catch (error: any) {
-          stepStatus = 'failed';
-          stepError = error.message;
-          hasError = true;
-          errorMessage = `Step ${i + 1} failed: ${error.message}`;
-          console.log(`   ❌ Failed: ${error.message}`);
+    if (this.closeAfterRecording) {
+      this.closeAfterRecording = false;
+      await this.closeBrowser();
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Path of an artifact of the current test: <outputDir>/<runName>/<test name>/<fileName>.
+   * Creates the folder.
+   */
+  private artifactPath(fileName: string): string {
+    const testFolder = (this.currentTestName || 'test').replace(/[^a-z0-9-_]+/gi, '_');
+    const dir = path.join(this.artifacts.outputDir!, this.artifacts.runName!, testFolder);
+    fs.mkdirSync(dir, { recursive: true });
+    return path.join(dir, fileName);
+  }
+
+  /**
+   * Save a screenshot and a DOM snapshot (page source on mobile) of the current state
+   */
+  private async captureStep(label: string, platform: PlatformType): Promise<{ screenshot?: string; domSnapshot?: string }> {
+    const baseName = `step-${label}-${Date.now()}`;
+    const captured: { screenshot?: string; domSnapshot?: string } = {};
+
+    try {
+      if (platform === PlatformType.WEB) {
+        // Only capture an already open page - never launch a browser for it
+        const page = this.context ? this.context.pages()[0] : browserManager.getPageInstance();
+        if (!page || page.isClosed()) {
+          return captured;
         }
+        captured.screenshot = this.artifactPath(`${baseName}.png`);
+        await page.screenshot({ path: captured.screenshot, fullPage: true });
+        captured.domSnapshot = this.artifactPath(`${baseName}.html`);
+        fs.writeFileSync(captured.domSnapshot, await page.content());
+      } else if (platform === PlatformType.MOBILE && this.mobileBrowser) {
+        captured.screenshot = this.artifactPath(`${baseName}.png`);
+        await this.mobileBrowser.saveScreenshot(captured.screenshot);
+        captured.domSnapshot = this.artifactPath(`${baseName}.xml`);
+        fs.writeFileSync(captured.domSnapshot, await this.mobileBrowser.getPageSource());
+      } else if (platform === PlatformType.DESKTOP) {
+        captured.screenshot = await screen.capture(baseName, FileType.PNG, this.artifactPath(''));
+      }
+    } catch (error: any) {
+      this.log('warn', `Could not capture step ${label}: ${error.message}`);
+      if (captured.screenshot && !fs.existsSync(captured.screenshot)) captured.screenshot = undefined;
+      if (captured.domSnapshot && !fs.existsSync(captured.domSnapshot)) captured.domSnapshot = undefined;
+    }
 
-        stepResults.push({
-          actionId: action.id,
-          status: stepStatus,
-          duration: Date.now() - stepStartTime,
-          error: stepError,
-          action: action.type,
-          object: action.target?.value || action.value || ''
-        });
+    return captured;
+  }
+
+  /**
+   * close_browser: close this executor's context when isolated, otherwise the shared browser
+   */
+  private async closeBrowser(): Promise<void> {
+    if (this.isolatedContext || this.context) {
+      await this.dispose();
+    } else {
+      await browserManager.closeBrowser();
+    }
+  }
+
+  private log(level: ExecutionLog['level'], message: string, stepIndex?: number, iteration?: number): void {
+    this.currentLogs.push({
+      timestamp: Date.now(),
+      level,
+      message,
+      stepIndex,
+      iteration
+    });
+
+    // Color-coded console output
+    const prefix = stepIndex !== undefined ? `[Step ${stepIndex + 1}]` : '[Executor]';
+    const iterationStr = iteration !== undefined ? ` [Iteration ${iteration + 1}]` : '';
+
+    switch (level) {
+      case 'success':
+        console.log(chalk.green(`✓ ${prefix}${iterationStr} ${message}`));
+        break;
+      case 'error':
+        console.log(chalk.red(`✗ ${prefix}${iterationStr} ${message}`));
+        break;
+      case 'warn':
+        console.log(chalk.yellow(`⚠ ${prefix}${iterationStr} ${message}`));
+        break;
+      case 'info':
+        console.log(chalk.blue(`ℹ ${prefix}${iterationStr} ${message}`));
+        break;
+      case 'debug':
+        console.log(chalk.gray(`⚙ ${prefix}${iterationStr} ${message}`));
+        break;
+    }
+  }
+
+  async executeTestCase(testCase: EnhancedTestCase): Promise<EnhancedExecutionResult> {
+    this.currentLogs = [];
+    this.currentTestName = testCase.name;
+
+    console.log(chalk.bold.cyan(`\n${'='.repeat(70)}`));
+    console.log(chalk.bold.cyan(`🚀 Executing Test Case: ${testCase.name}`));
+    console.log(chalk.cyan(`📝 Description: ${testCase.description}`));
+    console.log(chalk.cyan(`🔧 Platform: ${testCase.platform.toUpperCase()}`));
+    console.log(chalk.cyan(`📊 Total Steps: ${testCase.actions.length}`));
+    console.log(chalk.bold.cyan(`${'='.repeat(70)}\n`));
+
+    const startTime = Date.now();
+    const stepResults: EnhancedStepResult[] = [];
+    let hasError = false;
+    let errorMessage = '';
+
+    this.variables.setScope('test', testCase.variables);
+    this.variables.setScope('stored', {});
+    const healingStart = this.healingEngine.getHealingLog().length;
+
+    // Initialize platform-specific driver
+    try {
+      await this.initializePlatform(testCase);
+      if (testCase.platform === PlatformType.WEB) {
+        await this.startRecording();
+      }
 
-        if (hasError) break; // Stop execution on first error
+      const outcome = await this.executeSteps(testCase.actions, testCase.platform);
+      stepResults.push(...outcome.results);
+      if (outcome.failure) {
+        hasError = true;
+        errorMessage = outcome.failure;
       }
     } catch (error: any) {
       hasError = true;
       errorMessage = `Platform initialization failed: ${error.message}`;
-      console.error(`❌ ${errorMessage}`);
+      this.log('error', errorMessage);
     } finally {
       await this.cleanup(testCase.platform);
     }
 
+    const recorded = await this.stopRecording(hasError);
+
+    const dataRow = this.variables.getScope('data');
+    const hasDataRow = Object.keys(dataRow).length > 0;
+
     const endTime = Date.now();
-    const result: ExecutionResult = {
+    const result: EnhancedExecutionResult = {
       testCaseId: testCase.id,
+      name: hasDataRow ? `${testCase.name} ${formatDataRow(dataRow)}` : testCase.name,
+      data: hasDataRow ? { ...dataRow } : undefined,
       status: hasError ? 'failed' : 'passed',
       startTime,
       endTime,
       duration: endTime - startTime,
       steps: stepResults,
-      error: hasError ? errorMessage : undefined
+      error: hasError ? errorMessage : undefined,
+      logs: this.currentLogs,
+      healing: this.healingEngine.getHealingLog().slice(healingStart),
+      ...recorded
     };
 
     this.results.push(result);
 
-    console.log(`\n📋 Execution Summary:`);
-    console.log(`   Status: ${result.status.toUpperCase()}`);
-    console.log(`   Duration: ${result.duration}ms`);
-    console.log(`   Passed Steps: ${stepResults.filter(s => s.status === 'passed').length}/${stepResults.length}`);
+    if (this.healingMode === 'auto' && !this.deferHealingWrites && result.healing!.length > 0) {
+      const suggestions = collectHealingSuggestions([result]);
+      console.log(`\n🩹 Auto-healing: writing ${suggestions.length} healed locator(s) back`);
+      applyHealingSuggestions(suggestions, this.repositoryPath);
+      this.objectRepository = undefined; // Reload the updated objects for the next test
+    }
+
+    console.log(chalk.bold.cyan(`\n${'='.repeat(70)}`));
+    console.log(chalk.bold(`📋 Execution Summary:`));
+    console.log(`   Status: ${result.status === 'passed' ? chalk.green('PASSED ✓') : chalk.red('FAILED ✗')}`);
+    console.log(`   Duration: ${chalk.yellow(result.duration + 'ms')}`);
+    console.log(`   Passed Steps: ${chalk.green(stepResults.filter(s => s.status === 'passed').length)}/${stepResults.length}`);
+    console.log(`   Failed Steps: ${chalk.red(stepResults.filter(s => s.status === 'failed').length)}/${stepResults.length}`);
+    console.log(`   Skipped Steps: ${chalk.yellow(stepResults.filter(s => s.status === 'skipped').length)}/${stepResults.length}`);
     if (hasError) {
-      console.log(`   Error: ${errorMessage}`);
+      console.log(`   Error: ${chalk.red(errorMessage)}`);
     }
+    console.log(chalk.bold.cyan(`${'='.repeat(70)}\n`));
 
     return result;
   }
 
-  private async initializePlatform(platform: PlatformType): Promise<void> {
-    switch (platform) {
+  /**
+   * Execute a list of steps - the test case itself or the body of a block.
+   * Stops at the first failure that is not marked continueOnFailure and
+   * returns its message as `failure`.
+   */
+  private async executeSteps(
+    actions: EnhancedTestAction[],
+    platform: PlatformType,
+    labelPrefix: string = ''
+  ): Promise<{ results: EnhancedStepResult[]; failure?: string }> {
+    const results: EnhancedStepResult[] = [];
+
+    for (let i = 0; i < actions.length; i++) {
+      const action = actions[i];
+      const label = `${labelPrefix}${i + 1}`;
+      const position = labelPrefix ? label : `${label}/${actions.length}`;
+      console.log(chalk.bold(`\n⚡ Step ${position}: ${action.description}`));
+
+      const { result, failure } = await this.executeStep(action, platform, i, label);
+      results.push(result);
+
+      if (failure) {
+        return { results, failure }; // Stop execution on first error (unless continueOnFailure)
+      }
+    }
+
+    return { results };
+  }
+
+  private async executeStep(
+    action: EnhancedTestAction,
+    platform: PlatformType,
+    index: number,
+    label: string
+  ): Promise<{ result: EnhancedStepResult; failure?: string }> {
+    // Skip disabled steps
+    if (action.enabled === false) {
+      this.log('warn', 'Skipped (disabled)', index);
+      return {
+        result: {
+          actionId: action.id,
+          status: 'skipped',
+          duration: 0,
+          skipped: true,
+          action: action.type,
+          object: this.describeObject(action)
+        }
+      };
+    }
+
+    const stepStartTime = Date.now();
+    const firstLogIndex = this.currentLogs.length;
+    this.healingEngine.setContext({ testFile: this.currentTestFile, actionId: action.id, objectId: action.objectId });
+    this.stepHealing = undefined;
+    let stepStatus: 'passed' | 'failed' | 'skipped' = 'passed';
+    let stepError: string | undefined;
+    let failure: string | undefined;
+    let retryCount = 0;
+    let iterationCount = 1;
+    let validationResult: EnhancedStepResult['validationResult'];
+    let resolvedAction: EnhancedTestAction = action;
+    let children: EnhancedStepResult[] | undefined;
+    let branch: EnhancedStepResult['branch'];
+
+    try {
+      if (action.options?.waitBefore) {
+        this.log('info', `Waiting ${action.options.waitBefore}ms before execution...`, index);
+        await this.sleep(action.options.waitBefore);
+      }
+
+      const loop = action.options?.loop;
+      const loopRows = loop?.data ? this.getLoopRows(loop.data) : undefined;
+
+      if (action.type === ActionType.IF || action.type === ActionType.WHILE) {
+        const block = await this.executeBlock(action, platform, index, label);
+        children = block.results;
+        branch = block.branch;
+        iterationCount = block.iterations;
+        if (block.failure) {
+          throw new NestedStepError(block.failure);
+        }
+      } else if (action.type === ActionType.CALL) {
+        const call = await this.executeCall(action, platform, index, label);
+        children = call.results;
+        if (call.failure) {
+          throw new NestedStepError(call.failure);
+        }
+      } else if (loopRows || loop?.count) {
+        iterationCount = loopRows ? loopRows.length : loop.count!;
+        this.log('info', `Executing ${iterationCount} iterations`, index);
+
+        try {
+          for (let iteration = 0; iteration < iterationCount; iteration++) {
+            this.log('debug', `Iteration ${iteration + 1}/${iterationCount}`, index, iteration);
+            if (loopRows) {
+              const row = loopRows[iteration];
+              const rowVariables = row !== null && typeof row === 'object' ? row : {};
+              this.variables.setScope('step', { ...rowVariables, item: row, index: iteration });
+            }
+
+            resolvedAction = this.resolveAction(action);
+            retryCount += await this.executeActionWithRetry(resolvedAction, platform, index, iteration);
+
+            if (iteration < iterationCount - 1 && action.options.waitAfter) {
+              await this.sleep(action.options.waitAfter);
+            }
+          }
+        } finally {
+          this.variables.setScope('step', {});
+        }
+      } else if (loop?.while) {
+        const maxIterations = loop.maxIterations || DEFAULT_MAX_ITERATIONS;
+        iterationCount = 0;
+
+        while (await this.evaluateCondition(loop.while, platform, index)) {
+          if (iterationCount >= maxIterations) {
+            throw new Error(`While condition still true after ${maxIterations} iterations`);
+          }
+          this.log('debug', `Iteration ${iterationCount + 1} (while)`, index, iterationCount);
+
+          resolvedAction = this.resolveAction(action);
+          retryCount += await this.executeActionWithRetry(resolvedAction, platform, index, iterationCount);
+          iterationCount++;
+
+          if (action.options.waitAfter) {
+            await this.sleep(action.options.waitAfter);
+          }
+        }
+      } else {
+        resolvedAction = this.resolveAction(action);
+        retryCount = await this.executeActionWithRetry(resolvedAction, platform, index);
+      }
+
+      if (action.options?.waitAfter) {
+        this.log('info', `Waiting ${action.options.waitAfter}ms after execution...`, index);
+        await this.sleep(action.options.waitAfter);
+      }
+
+      if (action.options?.validation) {
+        validationResult = await this.validateStep(resolvedAction, platform, index);
+        if (!validationResult.passed) {
+          throw new Error(`Validation failed: Expected ${validationResult.expected}, got ${validationResult.actual}`);
+        }
+      }
+
+      this.log('success', `Completed (${Date.now() - stepStartTime}ms)`, index);
+    } catch (error: any) {
+      stepStatus = 'failed';
+      stepError = error.message;
+      retryCount = action.options?.retries || 0;
+
+      if (action.options?.continueOnFailure) {
+        this.log('warn', `Failed but continuing: ${error.message}`, index);
+      } else {
+        this.log('error', `Failed: ${error.message}`, index);
+        failure = error instanceof NestedStepError ? error.message : `Step ${label} failed: ${error.message}`;
+      }
+    }
+
+    // Blocks and calls are not captured themselves - their nested steps are
+    const snapshots = this.artifacts.stepSnapshots;
+    const isContainer = [ActionType.IF, ActionType.WHILE, ActionType.CALL].includes(action.type);
+    const captured = !isContainer && (snapshots === 'on' || (snapshots === 'retain-on-failure' && stepStatus === 'failed'))
+      ? await this.captureStep(label, platform)
+      : {};
+
+    return {
+      failure,
+      result: {
+        actionId: action.id,
+        status: stepStatus,
+        ...captured,
+        duration: Date.now() - stepStartTime,
+        error: stepError,
+        action: action.type,
+        object: this.describeObject(action),
+        retries: retryCount,
+        iterations: iterationCount,
+        logs: this.currentLogs.slice(firstLogIndex),
+        validationResult,
+        continueOnFailure: action.options?.continueOnFailure,
+        resolved: resolvedAction !== action ? {
+          value: resolvedAction.value,
+          target: resolvedAction.target?.value,
+          expected: resolvedAction.options?.validation?.expected
+        } : undefined,
+        branch,
+        children,
+        healing: isContainer ? undefined : this.stepHealing
+      }
+    };
+  }
+
+  /**
+   * Element or value a step works on, as shown in reports
+   */
+  private describeObject(action: EnhancedTestAction): string {
+    if (action.type === ActionType.CALL) {
+      return (action.value as CallStepSpec)?.testCase || '';
+    }
+    if (action.type === ActionType.STORE_VARIABLE) {
+      return action.target?.value || `\${${(action.value as StoreVariableSpec)?.variable}}`;
+    }
+    return action.target?.value || action.value || '';
+  }
+
+  /**
+   * Run an IF block (then/else branch) or a WHILE block (body repeated
+   * while the condition holds, up to maxIterations)
+   */
+  private async executeBlock(
+    action: EnhancedTestAction,
+    platform: PlatformType,
+    index: number,
+    label: string
+  ): Promise<{ results: EnhancedStepResult[]; failure?: string; branch?: 'then' | 'else'; iterations: number }> {
+    if (!action.condition) {
+      throw new Error(`${action.type} step has no condition`);
+    }
+
+    if (action.type === ActionType.IF) {
+      const matched = await this.evaluateCondition(action.condition, platform, index);
+      const branchSteps = (matched ? action.steps : action.elseSteps) || [];
+      this.log('info', `Running ${matched ? 'then' : 'else'} branch (${branchSteps.length} step(s))`, index);
+
+      const outcome = await this.executeSteps(branchSteps, platform, `${label}.`);
+      return { ...outcome, branch: matched ? 'then' : 'else', iterations: 1 };
+    }
+
+    const maxIterations = action.maxIterations || DEFAULT_MAX_ITERATIONS;
+    const results: EnhancedStepResult[] = [];
+    let iterations = 0;
+
+    while (await this.evaluateCondition(action.condition, platform, index)) {
+      if (iterations >= maxIterations) {
+        return {
+          results,
+          iterations,
+          failure: `Step ${label} failed: While condition still true after ${maxIterations} iterations`
+        };
+      }
+      this.log('debug', `Iteration ${iterations + 1} (while)`, index, iterations);
+      iterations++;
+
+      const outcome = await this.executeSteps(action.steps || [], platform, `${label}.`);
+      results.push(...outcome.results);
+      if (outcome.failure) {
+        return { results, iterations, failure: outcome.failure };
+      }
+    }
+
+    return { results, iterations };
+  }
+
+  /**
+   * Run another test case inline as a shared module.
+   * `params` are visible to the module as variables; variables the module
+   * stores stay available to the caller afterwards.
+   */
+  private async executeCall(
+    action: EnhancedTestAction,
+    platform: PlatformType,
+    index: number,
+    label: string
+  ): Promise<{ results: EnhancedStepResult[]; failure?: string }> {
+    const spec: CallStepSpec = this.variables.resolve(action.value);
+    if (!spec?.testCase) {
+      throw new Error('call step has no testCase');
+    }
+
+    const modulePath = this.resolveModulePath(spec.testCase);
+    if (this.callStack.includes(modulePath)) {
+      const chain = [...this.callStack, modulePath].map(file => path.basename(file)).join(' -> ');
+      throw new Error(`Recursive call: ${chain}`);
+    }
+
+    const module: EnhancedTestCase = JSON.parse(fs.readFileSync(modulePath, 'utf-8'));
+    if (module.platform && module.platform !== platform) {
+      this.log('warn', `Module ${module.name} is recorded for ${module.platform}, running it on ${platform}`, index);
+    }
+    this.log('info', `Calling ${module.name} (${module.actions.length} step(s))`, index);
+
+    const saved = {
+      test: this.variables.getScope('test'),
+      call: this.variables.getScope('call'),
+      step: this.variables.getScope('step'),
+      testDir: this.currentTestDir,
+      testFile: this.currentTestFile
+    };
+
+    this.variables.setScope('test', { ...saved.test, ...module.variables });
+    this.variables.setScope('call', spec.params || {});
+    this.variables.setScope('step', {});
+    this.currentTestDir = path.dirname(modulePath);
+    this.currentTestFile = modulePath;
+    this.callStack.push(modulePath);
+
+    try {
+      return await this.executeSteps(module.actions, platform, `${label}.`);
+    } finally {
+      this.callStack.pop();
+      this.currentTestDir = saved.testDir;
+      this.currentTestFile = saved.testFile;
+      this.variables.setScope('test', saved.test);
+      this.variables.setScope('call', saved.call);
+      this.variables.setScope('step', saved.step);
+    }
+  }
+
+  /**
+   * Module paths are relative to the calling test case, then the working directory
+   */
+  private resolveModulePath(testCase: string): string {
+    const candidates = path.isAbsolute(testCase)
+      ? [testCase]
+      : [...(this.currentTestDir ? [path.join(this.currentTestDir, testCase)] : []), path.resolve(testCase)];
+
+    const found = candidates.find(candidate => fs.existsSync(candidate));
+    if (!found) {
+      throw new Error(`Called test case not found: ${testCase}`);
+    }
+    return path.resolve(found);
+  }
+
+  /**
+   * Evaluate an if/while condition against the current page or variables
+   */
+  private async evaluateCondition(condition: StepCondition, platform: PlatformType, stepIndex: number): Promise<boolean> {
+    const resolved = this.variables.resolve(condition);
+    let result: boolean;
+
+    switch (resolved.type) {
+      case 'elementExists':
+      case 'elementNotExists': {
+        const exists = await this.elementExists(resolved, platform);
+        result = resolved.type === 'elementExists' ? exists : !exists;
+        break;
+      }
+
+      case 'textMatches': {
+        const text = await this.readConditionText(resolved, platform);
+        result = text !== null && new RegExp(resolved.pattern || '').test(text);
+        break;
+      }
+
+      case 'variableEquals':
+        result = String(this.variables.get(resolved.variable || '')) === String(resolved.value);
+        break;
+
+      default:
+        throw new Error(`Unknown condition type: ${(resolved as any).type}`);
+    }
+
+    if (resolved.negate) {
+      result = !result;
+    }
+
+    this.log('debug', `Condition ${resolved.negate ? 'not ' : ''}${resolved.type} => ${result}`, stepIndex);
+    return result;
+  }
+
+  private async elementExists(condition: StepCondition, platform: PlatformType): Promise<boolean> {
+    if (!condition.target) {
+      throw new Error(`Condition ${condition.type} needs a target element`);
+    }
+
+    if (platform === PlatformType.WEB) {
+      const page = await this.getPage();
+      const locator = this.getLocator(page, condition.target).first();
+
+      if (condition.timeout) {
+        try {
+          await locator.waitFor({ state: 'visible', timeout: condition.timeout });
+          return true;
+        } catch {
+          return false;
+        }
+      }
+      return (await locator.count()) > 0 && await locator.isVisible();
+    }
+
+    if (platform === PlatformType.MOBILE && this.mobileBrowser) {
+      try {
+        const element = await this.mobileBrowser.$(condition.target.value);
+        if (condition.timeout) {
+          await element.waitForDisplayed({ timeout: condition.timeout });
+          return true;
+        }
+        return await element.isDisplayed();
+      } catch {
+        return false;
+      }
+    }
+
+    throw new Error(`Element conditions are not supported on ${platform}`);
+  }
+
+  /**
+   * Text used by textMatches: the target element's text, or the page URL when no target is given
+   */
+  private async readConditionText(condition: StepCondition, platform: PlatformType): Promise<string | null> {
+    if (platform === PlatformType.WEB) {
+      const page = await this.getPage();
+      if (!condition.target) {
+        return page.url();
+      }
+      const locator = this.getLocator(page, condition.target).first();
+      return (await locator.count()) > 0 ? await locator.innerText() : null;
+    }
+
+    if (platform === PlatformType.MOBILE && this.mobileBrowser && condition.target) {
+      const element = await this.mobileBrowser.$(condition.target.value);
+      return (await element.isExisting()) ? await element.getText() : null;
+    }
+
+    throw new Error(`Text conditions are not supported on ${platform}`);
+  }
+
+  /**
+   * Rows for a step-level data loop: inline array or a dataset file
+   */
+  private getLoopRows(data: any[] | string): any[] {
+    if (typeof data === 'string') {
+      return loadDataset(this.variables.resolve(data), this.currentTestDir ? [this.currentTestDir] : []);
+    }
+    return data;
+  }
+
+  /**
+   * Return a copy of the action with ${variable} placeholders resolved
+   * in its value, target locator (and fallbacks) and validation.
+   * The original action is returned unchanged when it has no placeholders.
+   */
+  private resolveAction(action: EnhancedTestAction): EnhancedTestAction {
+    const validation = action.options?.validation;
+    if (!this.variables.hasPlaceholders([action.value, action.target, validation])) {
+      return action;
+    }
+
+    return {
+      ...action,
+      value: this.variables.resolve(action.value),
+      target: this.variables.resolve(action.target),
+      options: validation ? { ...action.options, validation: this.variables.resolve(validation) } : action.options
+    };
+  }
+
+  /**
+   * Run a single action, retrying up to `options.retries` times and
+   * enforcing `options.timeout` when one is set.
+   * Returns the number of retries that were needed.
+   */
+  private async executeActionWithRetry(
+    action: EnhancedTestAction,
+    platform: PlatformType,
+    stepIndex: number,
+    iteration?: number
+  ): Promise<number> {
+    const maxRetries = action.options?.retries || 0;
+    const timeout = action.options?.timeout;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        if (attempt > 0) {
+          this.log('info', `Retry attempt ${attempt}/${maxRetries}`, stepIndex, iteration);
+        }
+
+        if (timeout) {
+          await this.withTimeout(this.executeAction(action, platform), timeout);
+        } else {
+          await this.executeAction(action, platform);
+        }
+
+        return attempt;
+      } catch (error: any) {
+        if (attempt < maxRetries) {
+          this.log('warn', `Attempt ${attempt + 1} failed, retrying...`, stepIndex, iteration);
+          await this.sleep(1000);
+        } else {
+          throw error; // All retries exhausted
+        }
+      }
+    }
+
+    return maxRetries;
+  }
+
+  private async withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timeout after ${timeout}ms`)), timeout);
+        })
+      ]);
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private async validateStep(
+    action: EnhancedTestAction,
+    platform: PlatformType,
+    stepIndex: number
+  ): Promise<{ passed: boolean; expected: any; actual: any }> {
+    const validation = action.options?.validation;
+    if (!validation) {
+      return { passed: true, expected: null, actual: null };
+    }
+
+    this.log('info', `Validating: ${validation.type}`, stepIndex);
+
+    // Resolve the element to validate: explicit selector, or the step's own target
+    const selector = validation.actual || action.target?.value;
+    let actualValue: any;
+
+    if (selector) {
+      if (platform === PlatformType.WEB) {
+        const page = await this.getPage();
+        const isXPath = selector.startsWith('/');
+        const locator = page.locator(isXPath ? `xpath=${selector}` : selector).first();
+        if (await locator.count() > 0) {
+          actualValue = await locator.textContent();
+        }
+      } else if (platform === PlatformType.MOBILE && this.mobileBrowser) {
+        const element = await this.mobileBrowser.$(selector);
+        if (await element.isExisting()) {
+          actualValue = await element.getText();
+        }
+      }
+    }
+
+    let passed = false;
+
+    switch (validation.type) {
+      case 'equals':
+        passed = actualValue === validation.expected;
+        break;
+      case 'contains':
+        passed = typeof actualValue === 'string' && actualValue.includes(validation.expected);
+        break;
+      case 'regex':
+        passed = actualValue !== undefined && actualValue !== null && new RegExp(validation.expected).test(actualValue);
+        break;
+      case 'exists':
+        passed = actualValue !== null && actualValue !== undefined;
+        break;
+      case 'notExists':
+        passed = actualValue === null || actualValue === undefined;
+        break;
+    }
+
+    this.log(passed ? 'success' : 'error', `Validation ${passed ? 'passed' : 'failed'}`, stepIndex);
+
+    return {
+      passed,
+      expected: validation.expected,
+      actual: actualValue
+    };
+  }
+
+  private async initializePlatform(testCase: EnhancedTestCase): Promise<void> {
+    switch (testCase.platform) {
       case PlatformType.WEB:
         // Don't launch browser here - wait for "start_browser" action
         // This allows tests to run in an already-open browser
         console.log('   📌 Web platform initialized (browser will open via start_browser action)');
         break;
       case PlatformType.MOBILE:
-        // Mobile driver initialization would happen here
+        await this.startMobileSession(testCase);
         break;
       case PlatformType.DESKTOP:
         // Desktop automation doesn't need initialization
@@ -105,6 +997,26 @@ export class TestExecutor {
     }
   }
 
+  /**
+   * Open an Appium session with the test case's capabilities
+   */
+  private async startMobileSession(testCase: EnhancedTestCase): Promise<void> {
+    if (!testCase.capabilities) {
+      throw new Error('Mobile test case has no "capabilities" for the Appium session');
+    }
+
+    const server = new URL(testCase.appiumServer || 'http://localhost:4723/');
+    console.log(`   📱 Starting Appium session on ${server.origin}...`);
+    this.mobileBrowser = await remote({
+      protocol: server.protocol.replace(':', ''),
+      hostname: server.hostname,
+      port: Number(server.port) || 4723,
+      path: server.pathname,
+      capabilities: testCase.capabilities
+    });
+    console.log('   ✅ Mobile session started');
+  }
+
   private async executeAction(action: TestAction, platform: PlatformType): Promise<void> {
     switch (platform) {
       case PlatformType.WEB:
@@ -128,15 +1040,14 @@ export class TestExecutor {
 
       if (isStartBrowser) {
         console.log('   🌐 Ensuring browser is ready...');
-        await browserManager.getBrowser();
-        await browserManager.getContext();
-        await browserManager.getPage();
+        await this.getContext();
+        await this.getPage();
         console.log('   ✅ Browser ready');
 
         // If value is a URL (not "start_browser"), navigate to it
         if (action.value && action.value !== 'start_browser' && action.value.startsWith('http')) {
           console.log(`   🔄 Navigating to ${action.value}`);
-          const page = await browserManager.getPage();
+          const page = await this.getPage();
           if (page) {
             await page.goto(action.value);
             await page.waitForLoadState('domcontentloaded');
@@ -145,13 +1056,19 @@ export class TestExecutor {
 
         return;
       } else if (action.value === 'close_browser') {
-        await browserManager.closeBrowser();
+        if (this.recording) {
+          // Closing now would lose the trace / video - close once they are saved
+          console.log('   🎬 Recording in progress - browser closes after it is saved');
+          this.closeAfterRecording = true;
+        } else {
+          await this.closeBrowser();
+        }
         return;
       }
     }
 
     // Get page from browser manager
-    const page = await browserManager.getPage();
+    const page = await this.getPage();
     if (!page) {
       throw new Error('Web browser not initialized');
     }
@@ -259,59 +1176,18 @@ export class TestExecutor {
             console.log(`   ℹ️ No sidebar backdrop found (this is fine)`);
           }
 
-          // Try XPath first
+          let resolved: any = null;
           try {
-            const locator = this.getLocator(page, action.target);
-            await locator.waitFor({ state: 'visible', timeout: 8000 });
-            await locator.click({ timeout: 5000 });
+            resolved = await this.resolveLocator(page, action);
+            await resolved.waitFor({ state: 'visible', timeout: 8000 });
+            await resolved.click({ timeout: 5000 });
             clicked = true;
-          } catch (xpathError: any) {
-            lastError = xpathError;
-            console.log(`   ⚠️ XPath locator failed: ${xpathError.message}`);
-
-            // Try CSS fallback if available
-            if (action.target.fallbacks && action.target.fallbacks.length > 0) {
-              for (const fallback of action.target.fallbacks) {
-                if (fallback.type === 'css') {
-                  try {
-                    console.log(`   🔄 Trying CSS fallback: ${fallback.value}`);
-                    let cssLocator = page.locator(fallback.value);
-
-                    // If multiple matches, try to use XPath context to find the right one
-                    const count = await cssLocator.count();
-                    if (count > 1) {
-                      console.log(`   ℹ️ Found ${count} elements, using context from XPath`);
-
-                      // Extract table row index from XPath if it exists (e.g., tr[1], tr[2])
-                      const rowMatch = action.target.value.match(/\/tr\[(\d+)\]/);
-                      if (rowMatch) {
-                        const rowIndex = parseInt(rowMatch[1]) - 1; // Convert to 0-based index
-                        console.log(`   🎯 Targeting row ${rowIndex + 1} based on XPath`);
-
-                        // Try to find input in the specific table row
-                        cssLocator = page.locator(`tbody tr:nth-child(${rowIndex + 1}) ${fallback.value}`);
-                      } else {
-                        // No row context, just use first match
-                        console.log(`   🎯 Using first match`);
-                        cssLocator = cssLocator.first();
-                      }
-                    }
-
-                    await cssLocator.waitFor({ state: 'visible', timeout: 8000 });
-                    await cssLocator.click({ timeout: 5000 });
-                    clicked = true;
-                    console.log(`   ✅ CSS fallback succeeded`);
-                    break;
-                  } catch (cssError: any) {
-                    lastError = cssError;
-                    console.log(`   ⚠️ CSS fallback failed: ${cssError.message}`);
-                  }
-                }
-              }
-            }
+          } catch (locatorError: any) {
+            lastError = locatorError;
+            console.log(`   ⚠️ Locator failed: ${locatorError.message}`);
 
             // Try text-based selector if description has quoted text (e.g., 'Click on div "Edge Cafe"')
-            if (!clicked && action.description) {
+            if (action.description) {
               const textMatch = action.description.match(/[""]([^"""]+)[""]/) || action.description.match(/"([^"]+)"/);
               if (textMatch && textMatch[1]) {
                 const textContent = textMatch[1];
@@ -350,30 +1226,14 @@ export class TestExecutor {
 
           // If still not clicked, try force click as last resort
           if (!clicked) {
-            const locator = this.getLocator(page, action.target);
-            try {
-              if (lastError.message.includes('intercepts pointer events')) {
-                console.log(`   ⚠️ Element covered by overlay, using force click...`);
-                await locator.click({ force: true });
-              } else {
-                console.log(`   ⚠️ Element not immediately available, waiting and force clicking...`);
-                await page.waitForTimeout(3000);
-                await locator.click({ force: true, timeout: 5000 });
-              }
-            } catch (finalError: any) {
-              // Try CSS fallback with force click as absolute last resort
-              if (action.target.fallbacks && action.target.fallbacks.length > 0) {
-                for (const fallback of action.target.fallbacks) {
-                  if (fallback.type === 'css') {
-                    console.log(`   🔄 Final attempt with CSS fallback + force click`);
-                    const cssLocator = page.locator(fallback.value);
-                    await page.waitForTimeout(2000);
-                    await cssLocator.click({ force: true, timeout: 5000 });
-                    return;
-                  }
-                }
-              }
-              throw finalError;
+            const locator = resolved || this.getLocator(page, action.target);
+            if (lastError.message.includes('intercepts pointer events')) {
+              console.log(`   ⚠️ Element covered by overlay, using force click...`);
+              await locator.click({ force: true });
+            } else {
+              console.log(`   ⚠️ Element not immediately available, waiting and force clicking...`);
+              await page.waitForTimeout(3000);
+              await locator.click({ force: true, timeout: 5000 });
             }
           }
         }
@@ -381,28 +1241,8 @@ export class TestExecutor {
 
       case ActionType.TYPE:
         if (action.target) {
-          try {
-            const locator = this.getLocator(page, action.target);
-            await locator.fill(action.value);
-          } catch (xpathError: any) {
-            console.log(`   ⚠️ XPath locator failed: ${xpathError.message}`);
-
-            // Try CSS fallback if available
-            if (action.target.fallbacks && action.target.fallbacks.length > 0) {
-              for (const fallback of action.target.fallbacks) {
-                if (fallback.type === 'css') {
-                  console.log(`   🔄 Trying CSS fallback: ${fallback.value}`);
-                  const cssLocator = page.locator(fallback.value);
-                  await cssLocator.fill(action.value);
-                  console.log(`   ✅ CSS fallback succeeded`);
-                  return;
-                }
-              }
-            }
-
-            // Re-throw if no fallback worked
-            throw xpathError;
-          }
+          const locator = await this.resolveLocator(page, action);
+          await locator.fill(action.value);
         }
         break;
 
@@ -427,7 +1267,7 @@ export class TestExecutor {
 
       case ActionType.ASSERT:
         if (action.target && action.value) {
-          const locator = this.getLocator(page, action.target);
+          const locator = await this.resolveLocator(page, action);
           const actualValue = await locator.textContent();
           if (actualValue !== action.value.expectedValue) {
             throw new Error(`Assertion failed: expected "${action.value.expectedValue}", got "${actualValue}"`);
@@ -436,19 +1276,19 @@ export class TestExecutor {
         break;
 
       case ActionType.SCREENSHOT:
-        await page.screenshot({ path: `screenshot-${Date.now()}.png` });
+        await page.screenshot({ path: this.artifactPath(`screenshot-${Date.now()}.png`) });
         break;
 
       case ActionType.HOVER:
         if (action.target) {
-          const locator = this.getLocator(page, action.target);
+          const locator = await this.resolveLocator(page, action);
           await locator.hover();
         }
         break;
 
       case ActionType.SELECT:
         if (action.target) {
-          const locator = this.getLocator(page, action.target);
+          const locator = await this.resolveLocator(page, action);
           await locator.selectOption(action.value);
         }
         break;
@@ -456,18 +1296,180 @@ export class TestExecutor {
       case ActionType.PRESS_KEY:
         if (action.target) {
           // Focus on the target element first
-          const locator = this.getLocator(page, action.target);
+          const locator = await this.resolveLocator(page, action);
           await locator.focus();
         }
         // Press the key (e.g., 'Enter', 'Tab', 'Escape')
         await page.keyboard.press(action.value);
         break;
 
+      case ActionType.STORE_VARIABLE: {
+        const spec: StoreVariableSpec = action.value;
+        let captured: string | null;
+
+        if (spec.source === 'url') {
+          captured = page.url();
+        } else {
+          if (!action.target) {
+            throw new Error(`Store variable "${spec.variable}" needs a target element`);
+          }
+          const locator = (await this.resolveLocator(page, action)).first();
+          await locator.waitFor({ state: 'attached', timeout: 10000 });
+
+          if (spec.source === 'value') {
+            captured = await locator.inputValue();
+          } else if (spec.source === 'attribute') {
+            captured = await locator.getAttribute(spec.attribute!);
+          } else {
+            captured = (await locator.innerText()).trim();
+          }
+        }
+
+        this.storeVariable(spec, captured);
+        break;
+      }
+
       default:
         console.warn(`Unsupported web action type: ${action.type}`);
     }
   }
 
+  /**
+   * Element for a web step. Steps with an objectId, fallbacks or a recorded
+   * fingerprint are resolved through the healing engine, other steps use
+   * their recorded locator.
+   */
+  private async resolveLocator(page: Page, action: TestAction) {
+    const { object, locator, fingerprint, healable } = this.healingTarget(action);
+    if (!healable) {
+      return this.getLocator(page, locator);
+    }
+
+    const scope = object?.parentObject ? await this.resolveScope(action, object.parentObject, page) : undefined;
+    const result = await this.healingEngine.findElementWeb(page, locator, object?.attributes, object?.name, {
+      timeout: HEALING_WAIT_TIMEOUT,
+      fingerprint,
+      scope
+    });
+    this.recordStepHealing(result, object?.name || locator.value);
+
+    let element = result.element;
+    if (result.healingApplied && await element.count() > 1) {
+      // A healed CSS locator often matches every table row - keep the row the recorded XPath pointed at
+      const rowMatch = locator.type === 'xpath' ? locator.value.match(/\/tr\[(\d+)\]/) : null;
+      if (rowMatch && result.usedLocator!.type === 'css') {
+        console.log(`   🎯 Targeting row ${rowMatch[1]} based on XPath`);
+        element = (scope || page).locator(`tbody tr:nth-child(${rowMatch[1]}) ${result.usedLocator!.value}`);
+      } else {
+        element = element.first();
+      }
+    }
+    return element;
+  }
+
+  /**
+   * Element for a mobile step, resolved the same way as web steps
+   */
+  private async resolveMobileElement(action: TestAction) {
+    const { object, locator, fingerprint, healable } = this.healingTarget(action);
+    if (!healable) {
+      return this.mobileBrowser!.$(locator.value);
+    }
+
+    const scope = object?.parentObject ? await this.resolveScope(action, object.parentObject) : undefined;
+    const result = await this.healingEngine.findElementMobile(this.mobileBrowser!, locator, object?.attributes, object?.name, {
+      timeout: HEALING_WAIT_TIMEOUT,
+      fingerprint,
+      scope
+    });
+    this.recordStepHealing(result, object?.name || locator.value);
+    return result.element;
+  }
+
+  /**
+   * Element of a parent repository object (dialog, table row, ...) that a
+   * child object's locators are resolved inside. Parents of the parent are
+   * resolved first. Web when `page` is given, otherwise mobile.
+   */
+  private async resolveScope(action: TestAction, parentId: string, page?: Page, children: string[] = []): Promise<any> {
+    const parent = this.getRepository().getObject(parentId);
+    if (!parent || parent.locators.length === 0) {
+      console.log(`   ⚠️ Parent object ${parentId} not in the repository - searching the whole ${page ? 'page' : 'screen'}`);
+      return undefined;
+    }
+    if (children.includes(parent.id)) {
+      throw new Error(`Parent objects form a cycle at ${parent.name}`);
+    }
+
+    const scope = parent.parentObject
+      ? await this.resolveScope(action, parent.parentObject, page, [...children, parent.id])
+      : undefined;
+    const locator: ElementLocator = { ...parent.locators[0], fallbacks: parent.locators.slice(1) };
+    const options = { timeout: HEALING_WAIT_TIMEOUT, fingerprint: parent.fingerprint, scope };
+
+    // Healing events of the parent belong to the parent object
+    this.healingEngine.setContext({ testFile: this.currentTestFile, actionId: action.id, objectId: parent.id });
+    try {
+      const result = page
+        ? await this.healingEngine.findElementWeb(page, locator, parent.attributes, parent.name, options)
+        : await this.healingEngine.findElementMobile(this.mobileBrowser!, locator, parent.attributes, parent.name, options);
+      if (!result.success) {
+        throw new Error(`Parent element not found: ${parent.name} (${locator.type}=${locator.value})`);
+      }
+
+      console.log(`   📂 Inside ${parent.name}${result.healingApplied ? ` (healed by ${result.strategyUsed})` : ''}`);
+      return page ? result.element.first() : result.element;
+    } finally {
+      this.healingEngine.setContext({ testFile: this.currentTestFile, actionId: action.id, objectId: action.objectId });
+    }
+  }
+
+  /**
+   * Locator of a step - from its repository object when it has one - and
+   * whether it goes through the healing engine
+   */
+  private healingTarget(action: TestAction) {
+    const object = action.objectId ? this.getRepository().getObject(action.objectId) : undefined;
+    if (action.objectId && !object) {
+      console.log(`   ⚠️ Object ${action.objectId} not in the repository - using the recorded locator`);
+    }
+
+    const locator: ElementLocator | undefined = object?.locators.length
+      ? { ...object.locators[0], fallbacks: object.locators.slice(1) }
+      : action.target;
+    if (!locator) {
+      throw new Error(`Step has no target element`);
+    }
+
+    const fingerprint = object?.fingerprint || action.fingerprint;
+    return { object, locator, fingerprint, healable: !!(object || locator.fallbacks?.length || fingerprint) };
+  }
+
+  /**
+   * Fail the step when the element was not found, otherwise note on the
+   * step result how it was found
+   */
+  private recordStepHealing(result: HealingResult, target: string): void {
+    if (!result.success) {
+      const hint = this.healingMode === 'off' ? ' (self-healing is off)' : '';
+      throw new Error(`Element not found: ${target}${hint}`);
+    }
+
+    this.stepHealing = {
+      strategy: result.strategyUsed || 'original',
+      locator: result.usedLocator!,
+      healed: result.healingApplied,
+      confidence: result.confidence
+    };
+  }
+
+  private getRepository(): ObjectRepositoryManager {
+    if (!this.objectRepository) {
+      this.objectRepository = new ObjectRepositoryManager(this.repositoryPath);
+    }
+    return this.objectRepository;
+  }
+
   private getLocator(page: any, target: any) {
     // Prefer XPath for better text-based matching (dropdowns, menus, etc.)
     // Fallback to CSS selector if XPath fails
@@ -537,14 +1539,14 @@ export class TestExecutor {
             y: coords.y
           });
         } else if (action.target) {
-          const element = await this.mobileBrowser.$(action.target.value);
+          const element = await this.resolveMobileElement(action);
           await element.click();
         }
         break;
 
       case ActionType.TYPE:
         if (action.target) {
-          const element = await this.mobileBrowser.$(action.target.value);
+          const element = await this.resolveMobileElement(action);
           await element.setValue(action.value);
         }
         break;
@@ -566,11 +1568,57 @@ export class TestExecutor {
         await new Promise(resolve => setTimeout(resolve, action.value));
         break;
 
+      case ActionType.STORE_VARIABLE: {
+        const spec: StoreVariableSpec = action.value;
+        if (!action.target) {
+          throw new Error(`Store variable "${spec.variable}" needs a target element`);
+        }
+        const element = await this.resolveMobileElement(action);
+
+        let captured: string | null;
+        if (spec.source === 'attribute') {
+          captured = await element.getAttribute(spec.attribute!);
+        } else if (spec.source === 'value') {
+          captured = await element.getValue();
+        } else if (spec.source === 'text') {
+          captured = await element.getText();
+        } else {
+          throw new Error(`Store source "${spec.source}" is not supported on mobile`);
+        }
+
+        this.storeVariable(spec, captured);
+        break;
+      }
+
       default:
         console.warn(`Unsupported mobile action type: ${action.type}`);
     }
   }
 
+  /**
+   * Save a captured value as a run variable, applying the optional pattern
+   */
+  private storeVariable(spec: StoreVariableSpec, captured: string | null): void {
+    if (!spec?.variable) {
+      throw new Error('Store variable action is missing a variable name');
+    }
+    if (captured === null || captured === undefined) {
+      throw new Error(`Nothing to store in "${spec.variable}" (${spec.source}${spec.attribute ? ` ${spec.attribute}` : ''} not found)`);
+    }
+
+    let value = captured;
+    if (spec.pattern) {
+      const match = captured.match(new RegExp(spec.pattern));
+      if (!match) {
+        throw new Error(`Value "${captured}" does not match pattern /${spec.pattern}/ for "${spec.variable}"`);
+      }
+      value = match[1] !== undefined ? match[1] : match[0];
+    }
+
+    this.variables.set(spec.variable, value, 'stored');
+    this.log('info', `Stored \${${spec.variable}} = "${value}"`);
+  }
+
   private async cleanup(platform: PlatformType): Promise<void> {
     switch (platform) {
       case PlatformType.WEB:
@@ -587,20 +1635,22 @@ export class TestExecutor {
     }
   }
 
-  async executeFromFile(testCaseFilePath: string, loopCount: number = 1): Promise<ExecutionResult> {
+  async executeFromFile(testCaseFilePath: string, loopCount: number = 1): Promise<EnhancedExecutionResult> {
     const testCaseJson = fs.readFileSync(testCaseFilePath, 'utf-8');
-    const testCase: TestCase = JSON.parse(testCaseJson);
+    const testCase: EnhancedTestCase = JSON.parse(testCaseJson);
+    this.currentTestDir = path.dirname(testCaseFilePath);
+    this.currentTestFile = testCaseFilePath;
 
     // For web tests, ensure browser is on the correct URL before executing
     if (testCase.platform === PlatformType.WEB) {
-      await this.ensureBrowserReady(testCaseFilePath);
+      await this.ensureBrowserReady(path.dirname(testCaseFilePath));
     }
 
     if (loopCount > 1) {
       console.log(`\n🔁 Looping test case ${loopCount} times`);
     }
 
-    let lastResult: ExecutionResult | null = null;
+    let lastResult: EnhancedExecutionResult | null = null;
 
     for (let loop = 0; loop < loopCount; loop++) {
       if (loopCount > 1) {
@@ -621,11 +1671,42 @@ export class TestExecutor {
     return lastResult!;
   }
 
-  private async ensureBrowserReady(testFilePath: string): Promise<void> {
+  /**
+   * Execute a test case file once, or once per row when a dataset is bound
+   * (the `dataset` argument, or the test case's own `dataset` field).
+   * Each row's columns become variables and each row yields its own result.
+   */
+  async executeAllFromFile(testCaseFilePath: string, loopCount: number = 1, dataset?: string): Promise<EnhancedExecutionResult[]> {
+    const testCase: EnhancedTestCase = JSON.parse(fs.readFileSync(testCaseFilePath, 'utf-8'));
+    const source = dataset || testCase.dataset;
+
+    if (!source) {
+      return [await this.executeFromFile(testCaseFilePath, loopCount)];
+    }
+
+    const rows = loadDataset(this.variables.resolve(source), [path.dirname(testCaseFilePath)]);
+    const results: EnhancedExecutionResult[] = [];
+
+    for (let r = 0; r < rows.length; r++) {
+      console.log(`\n${'─'.repeat(40)}`);
+      console.log(`📑 Data row ${r + 1}/${rows.length}: ${formatDataRow(rows[r])}`);
+      console.log(`${'─'.repeat(40)}`);
+
+      this.variables.setScope('data', rows[r]);
+      try {
+        results.push(await this.executeFromFile(testCaseFilePath, loopCount));
+      } finally {
+        this.variables.setScope('data', {});
+      }
+    }
+
+    return results;
+  }
+
+  private async ensureBrowserReady(testsDir: string): Promise<void> {
     console.log('🔍 Checking browser state...');
 
     // Read suite config to get URL
-    const testsDir = path.dirname(testFilePath);
     const suiteDir = path.dirname(testsDir);
     const suiteConfigPath = path.join(suiteDir, 'suite-config.json');
 
@@ -635,7 +1716,8 @@ export class TestExecutor {
     }
 
     const suiteConfig = JSON.parse(fs.readFileSync(suiteConfigPath, 'utf-8'));
-    const suiteUrl = suiteConfig.url || suiteConfig.path || suiteConfig.urlOrPath;
+    const rawSuiteUrl = suiteConfig.url || suiteConfig.path || suiteConfig.urlOrPath;
+    const suiteUrl = rawSuiteUrl ? this.variables.resolve(rawSuiteUrl) : rawSuiteUrl;
 
     if (!suiteUrl) {
       console.log('⚠️ No URL found in suite config');
@@ -647,8 +1729,7 @@ export class TestExecutor {
     console.log(`✅ Found suite URL: ${suiteUrl}`);
 
     // Get browser and check if it has pages
-    const browser = await browserManager.getBrowser();
-    const context = await browserManager.getContext();
+    const context = await this.getContext();
     const pages = context.pages();
 
     if (pages.length === 0) {
@@ -682,8 +1763,8 @@ export class TestExecutor {
     }
   }
 
-  async executeBatch(testCaseFilePaths: string[]): Promise<ExecutionResult[]> {
-    const results: ExecutionResult[] = [];
+  async executeBatch(testCaseFilePaths: string[]): Promise<EnhancedExecutionResult[]> {
+    const results: EnhancedExecutionResult[] = [];
 
     for (const filePath of testCaseFilePaths) {
       const result = await this.executeFromFile(filePath);
@@ -693,10 +1774,15 @@ export class TestExecutor {
     return results;
   }
 
-  getResults(): ExecutionResult[] {
+  getResults(): EnhancedExecutionResult[] {
     return this.results;
   }
 
+  saveExecutionLogs(outputPath: string): void {
+    fs.writeFileSync(outputPath, JSON.stringify(this.currentLogs, null, 2));
+    console.log(`📝 Execution logs saved: ${outputPath}`);
+  }
+
   generateReport(outputPath: string): void {
     const report = {
       summary: {
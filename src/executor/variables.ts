@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Variable scopes, lowest to highest precedence.
+ * A name defined in a later scope overrides the same name in an earlier one.
+ */
+export type VariableScope = 'test' | 'suite' | 'environment' | 'data' | 'run' | 'call' | 'stored' | 'step';
+
+// Stored values rank above call params, so a module reads back what it stored
+const SCOPE_ORDER: VariableScope[] = ['test', 'suite', 'environment', 'data', 'run', 'call', 'stored', 'step'];
+
+const PLACEHOLDER = /\$\{\s*([^}]+?)\s*\}/g;
+
+export interface EnvironmentConfig {
+  name: string;
+  variables: Record<string, any>;
+}
+
+/**
+ * Layered variable store used by the executor to resolve
+ * `${name}` placeholders in action values, locators and validations.
+ *
+ * Supported expressions:
+ *   ${username}        - variable lookup
+ *   ${user.email}      - nested property of an object variable
+ *   ${env.HOME}        - process environment variable
+ */
+export class VariableStore {
+  private scopes: Record<VariableScope, Record<string, any>> = {
+    test: {},
+    suite: {},
+    environment: {},
+    data: {},
+    run: {},
+    call: {},
+    stored: {},     // Values saved by store_variable steps during the current test
+    step: {}
+  };
+
+  /**
+   * Replace all variables of a scope
+   */
+  setScope(scope: VariableScope, variables: Record<string, any> = {}): void {
+    this.scopes[scope] = { ...variables };
+  }
+
+  /**
+   * Variables of a single scope
+   */
+  getScope(scope: VariableScope): Record<string, any> {
+    return this.scopes[scope];
+  }
+
+  /**
+   * Set a single variable (run scope by default)
+   */
+  set(name: string, value: any, scope: VariableScope = 'run'): void {
+    this.scopes[scope][name] = value;
+  }
+
+  /**
+   * Look up a variable, honoring scope precedence and dotted paths
+   */
+  get(name: string): any {
+    if (name.startsWith('env.')) {
+      return process.env[name.substring(4)];
+    }
+
+    const [root, ...rest] = name.split('.');
+    const all = this.getAll();
+    if (!(root in all)) {
+      return undefined;
+    }
+
+    return rest.reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), all[root]);
+  }
+
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  /**
+   * Merged view of every scope
+   */
+  getAll(): Record<string, any> {
+    return SCOPE_ORDER.reduce((acc, scope) => ({ ...acc, ...this.scopes[scope] }), {} as Record<string, any>);
+  }
+
+  /**
+   * Check whether a value contains any `${...}` placeholder
+   */
+  hasPlaceholders(input: any): boolean {
+    if (typeof input === 'string') {
+      return new RegExp(PLACEHOLDER.source).test(input);
+    }
+    if (Array.isArray(input)) {
+      return input.some(item => this.hasPlaceholders(item));
+    }
+    if (input && typeof input === 'object') {
+      return Object.values(input).some(value => this.hasPlaceholders(value));
+    }
+    return false;
+  }
+
+  /**
+   * Resolve placeholders in a string, array or object (deep).
+   * A string that is exactly one placeholder keeps the variable's type.
+   * Throws if a referenced variable is not defined.
+   */
+  resolve<T>(input: T): T {
+    if (typeof input === 'string') {
+      return this.resolveString(input) as any;
+    }
+    if (Array.isArray(input)) {
+      return input.map(item => this.resolve(item)) as any;
+    }
+    if (input && typeof input === 'object') {
+      const resolved: Record<string, any> = {};
+      for (const [key, value] of Object.entries(input)) {
+        resolved[key] = this.resolve(value);
+      }
+      return resolved as T;
+    }
+    return input;
+  }
+
+  private resolveString(input: string): any {
+    const whole = input.match(/^\$\{\s*([^}]+?)\s*\}$/);
+    if (whole) {
+      return this.lookup(whole[1]);
+    }
+
+    return input.replace(PLACEHOLDER, (_, name: string) => {
+      const value = this.lookup(name);
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+
+  private lookup(name: string): any {
+    const value = this.get(name);
+    if (value === undefined) {
+      throw new Error(`Undefined variable: \${${name}}`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Load an environment by name (environments/<name>.json) or by file path.
+ * The file may either be `{ "name": ..., "variables": {...} }` or a plain
+ * object of variables.
+ */
+export function loadEnvironment(nameOrPath: string, environmentsDir: string = './environments'): EnvironmentConfig {
+  const candidates = [
+    nameOrPath,
+    path.join(environmentsDir, nameOrPath),
+    path.join(environmentsDir, `${nameOrPath}.json`)
+  ];
+
+  const filePath = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+  if (!filePath) {
+    throw new Error(`Environment not found: ${nameOrPath}`);
+  }
+
+  const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const variables = content.variables && typeof content.variables === 'object' ? content.variables : content;
+
+  return {
+    name: content.name || path.basename(filePath, '.json'),
+    variables
+  };
+}
+
+/**
+ * Parse CLI `key=value` pairs into a variables object
+ */
+export function parseVariableAssignments(assignments: string[] = []): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid variable assignment "${assignment}" (expected key=value)`);
+    }
+    variables[assignment.substring(0, separator).trim()] = assignment.substring(separator + 1);
+  }
+
+  return variables;
+}
@@ -0,0 +1,249 @@
+import { ElementFingerprint } from '../types';
+
+/**
+ * Element fingerprints for similarity healing.
+ * captureFingerprint and collectCandidates run inside the page, so they
+ * must not use anything outside their own body.
+ */
+
+export interface FingerprintCandidate {
+  fingerprint: ElementFingerprint;
+  xpath: string;           // Absolute XPath - always unique
+  css?: string;            // Shorter selector when the element has a stable attribute
+}
+
+export interface FingerprintScore {
+  score: number;
+  breakdown: Record<string, number>;
+}
+
+// Relative weight of each fingerprint component in the overall score
+const WEIGHTS: Record<string, number> = {
+  tag: 1,
+  attributes: 3,
+  text: 2,
+  labels: 2,
+  position: 1,
+  domPath: 1
+};
+
+// Attributes compared between fingerprints (others are usually generated)
+const COMPARED_ATTRIBUTES = [
+  'id', 'name', 'type', 'placeholder', 'aria-label', 'data-testid', 'data-test',
+  'role', 'href', 'title', 'alt', 'for', 'class',
+  'resource-id', 'content-desc', 'label', 'hint'   // Appium page source
+];
+
+// Centers further apart than this (px) get no position score
+const POSITION_RANGE = 400;
+
+/**
+ * Fingerprint of an element (runs in the page)
+ */
+export function captureFingerprint(element: Element): ElementFingerprint {
+  const clean = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim().substring(0, 100);
+
+  const attributes: Record<string, string> = {};
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.name !== 'style' && attribute.value.length <= 200) {
+      attributes[attribute.name] = attribute.value;
+    }
+  }
+
+  const labels: string[] = [];
+  const fieldLabels = (element as HTMLInputElement).labels;
+  if (fieldLabels) {
+    Array.from(fieldLabels).forEach(label => labels.push(clean(label.textContent)));
+  }
+  (element.getAttribute('aria-labelledby') || '').split(' ').filter(Boolean).forEach(id => {
+    labels.push(clean(document.getElementById(id)?.textContent));
+  });
+  // Nearest text before the element, in its own or its parent's siblings
+  for (let node: Element | null = element; node && node !== document.body && labels.length < 4; node = node.parentElement) {
+    const previous = node.previousElementSibling;
+    const text = previous ? clean(previous.textContent) : '';
+    if (text) {
+      labels.push(text.substring(0, 50));
+      break;
+    }
+  }
+
+  const domPath: string[] = [];
+  for (let node: Element | null = element; node && node !== document.body; node = node.parentElement) {
+    domPath.unshift(node.tagName.toLowerCase());
+  }
+
+  const rect = element.getBoundingClientRect();
+  return {
+    tagName: element.tagName.toLowerCase(),
+    attributes,
+    text: clean(element.textContent),
+    position: {
+      x: Math.round(rect.x + window.scrollX),
+      y: Math.round(rect.y + window.scrollY),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height)
+    },
+    labels: labels.filter(Boolean),
+    domPath
+  };
+}
+
+/**
+ * Fingerprints of the visible elements that could be the healed element:
+ * every element with the recorded tag plus interactive elements, inside
+ * `root` when given (runs in the page, after window.captureFingerprint has
+ * been defined with FINGERPRINT_SCRIPT)
+ */
+export function collectCandidates(args: { tagName: string; limit: number; root?: Element }): FingerprintCandidate[] {
+  const selector = `${args.tagName}, a, button, input, select, textarea, [role], [onclick], [tabindex]`;
+  const elements = Array.from((args.root || document).querySelectorAll(selector))
+    .filter(element => element.getClientRects().length > 0 && element.id !== 'qa-recorder-overlay')
+    .slice(0, args.limit);
+
+  const xpathOf = (element: Element) => {
+    let xpath = '';
+    for (let node: Element | null = element; node && node.nodeType === 1; node = node.parentElement) {
+      const tag = node.tagName.toLowerCase();
+      const siblings = node.parentElement
+        ? Array.from(node.parentElement.children).filter(sibling => sibling.tagName === node!.tagName)
+        : [node];
+      xpath = `/${tag}${siblings.length > 1 ? `[${siblings.indexOf(node) + 1}]` : ''}${xpath}`;
+    }
+    return xpath;
+  };
+
+  const cssOf = (element: Element) => {
+    const tag = element.tagName.toLowerCase();
+    if (element.id && !/\d{3,}/.test(element.id)) {
+      return `${tag}[id="${element.id}"]`;
+    }
+    for (const name of ['data-testid', 'data-test', 'name', 'aria-label', 'placeholder']) {
+      const value = element.getAttribute(name);
+      if (value) {
+        return `${tag}[${name}="${value.replace(/"/g, '\\"')}"]`;
+      }
+    }
+    return undefined;
+  };
+
+  return elements.map(element => ({
+    fingerprint: (window as any).captureFingerprint(element),
+    xpath: xpathOf(element),
+    css: cssOf(element)
+  }));
+}
+
+/**
+ * Defines window.captureFingerprint in a page (recorder and healing engine)
+ */
+export const FINGERPRINT_SCRIPT = `window.captureFingerprint = ${captureFingerprint.toString()};`;
+
+/**
+ * Similarity of a candidate to the recorded fingerprint. Components the
+ * recorded element does not have (e.g. no text) are left out of the score.
+ */
+export function scoreFingerprint(expected: ElementFingerprint, candidate: ElementFingerprint): FingerprintScore {
+  const breakdown: Record<string, number> = {
+    tag: expected.tagName === candidate.tagName ? 1 : 0
+  };
+
+  const attributes = attributeSimilarity(expected.attributes, candidate.attributes);
+  if (attributes !== undefined) {
+    breakdown.attributes = attributes;
+  }
+  if (expected.text) {
+    breakdown.text = textSimilarity(expected.text, candidate.text);
+  }
+  if (expected.labels.length > 0) {
+    breakdown.labels = Math.max(0, ...expected.labels.flatMap(label =>
+      candidate.labels.map(other => textSimilarity(label, other))
+    ));
+  }
+  if (expected.position && candidate.position) {
+    const center = (p: NonNullable<ElementFingerprint['position']>) => ({ x: p.x + p.width / 2, y: p.y + p.height / 2 });
+    const a = center(expected.position);
+    const b = center(candidate.position);
+    breakdown.position = Math.max(0, 1 - Math.hypot(a.x - b.x, a.y - b.y) / POSITION_RANGE);
+  }
+  if (expected.domPath.length > 0) {
+    breakdown.domPath = commonSubsequence(expected.domPath, candidate.domPath) / Math.max(expected.domPath.length, candidate.domPath.length);
+  }
+
+  let total = 0;
+  let weights = 0;
+  for (const [component, score] of Object.entries(breakdown)) {
+    breakdown[component] = round(score);
+    total += score * WEIGHTS[component];
+    weights += WEIGHTS[component];
+  }
+
+  return { score: round(total / weights), breakdown };
+}
+
+function attributeSimilarity(expected: Record<string, string>, candidate: Record<string, string>): number | undefined {
+  const names = COMPARED_ATTRIBUTES.filter(name => expected[name]);
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  const scores = names.map(name => {
+    if (!candidate[name]) {
+      return 0;
+    }
+    if (name === 'class') {
+      const a = new Set(expected[name].split(/\s+/).filter(Boolean));
+      const b = new Set(candidate[name].split(/\s+/).filter(Boolean));
+      const shared = [...a].filter(token => b.has(token)).length;
+      return shared / new Set([...a, ...b]).size;
+    }
+    return textSimilarity(expected[name], candidate[name]);
+  });
+
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+/**
+ * 1 for equal text, partial credit for containment and shared words
+ */
+function textSimilarity(a: string, b: string): number {
+  const x = a.toLowerCase().replace(/\s+/g, ' ').trim();
+  const y = b.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!x || !y) {
+    return 0;
+  }
+  if (x === y) {
+    return 1;
+  }
+
+  const [shorter, longer] = x.length < y.length ? [x, y] : [y, x];
+  if (longer.includes(shorter)) {
+    return 0.5 + 0.5 * (shorter.length / longer.length);
+  }
+
+  const words = (text: string) => new Set(text.split(/[^a-z0-9]+/).filter(Boolean));
+  const wordsA = words(x);
+  const wordsB = words(y);
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  const all = new Set([...wordsA, ...wordsB]).size;
+  return all > 0 ? (shared / all) * 0.9 : 0;
+}
+
+/**
+ * Length of the longest common subsequence of two tag paths
+ */
+function commonSubsequence(a: string[], b: string[]): number {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      lengths[i][j] = a[i - 1] === b[j - 1]
+        ? lengths[i - 1][j - 1] + 1
+        : Math.max(lengths[i - 1][j], lengths[i][j - 1]);
+    }
+  }
+  return lengths[a.length][b.length];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
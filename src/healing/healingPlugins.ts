@@ -0,0 +1,49 @@
+import { HealingStrategy, SelfHealingEngine } from './selfHealing';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_CONFIG_PATH = './qa.config.json';
+
+/**
+ * `healing` section of qa.config.json
+ */
+export interface HealingConfig {
+  plugins?: string[];      // Modules exporting strategies, relative to the config file
+}
+
+/**
+ * Register the healing strategies of every plugin module listed in the
+ * config file. A plugin exports a strategy or an array of strategies, as
+ * `module.exports`, `default` or `strategies`.
+ * Returns the names of the registered strategies.
+ */
+export function loadHealingPlugins(engine: SelfHealingEngine, configPath: string = DEFAULT_CONFIG_PATH): string[] {
+  if (!fs.existsSync(configPath)) {
+    return [];
+  }
+
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  const healing: HealingConfig = config.healing || {};
+  const registered: string[] = [];
+
+  for (const plugin of healing.plugins || []) {
+    const pluginPath = path.resolve(path.dirname(configPath), plugin);
+    let exported: any;
+    try {
+      exported = require(pluginPath);
+    } catch (error: any) {
+      throw new Error(`Cannot load healing plugin ${plugin}: ${error.message}`);
+    }
+
+    const strategies: HealingStrategy[] = [].concat(exported.strategies || exported.default || exported);
+    for (const strategy of strategies) {
+      engine.registerStrategy(strategy);
+      registered.push(`${strategy.name} (${strategy.platform}, priority ${strategy.priority})`);
+    }
+  }
+
+  if (registered.length > 0) {
+    console.log(`🧩 Healing strategies from plugins: ${registered.join(', ')}`);
+  }
+  return registered;
+}
@@ -0,0 +1,180 @@
+import { ElementLocator, ExecutionResult, HealingEvent, FingerprintMatch } from '../types';
+import { ObjectRepositoryManager } from '../repository/objectRepository';
+import * as fs from 'fs';
+
+/**
+ * A healed locator that can be written back permanently, grouped from
+ * the healing events of one or more runs
+ */
+export interface HealingSuggestion {
+  number: number;                      // 1-based, used by `heal:apply --select`
+  objectId?: string;                   // Update this object repository entry...
+  objectName?: string;
+  testFile?: string;                   // ...or the target of this step in this test case
+  actionId?: string;
+  originalLocator: ElementLocator;
+  healedLocator: ElementLocator;
+  strategy: string;
+  confidence?: number;                 // Fingerprint similarity of the latest healing
+  candidates?: FingerprintMatch[];     // Scored candidates of the latest healing
+  occurrences: number;
+  tests: string[];                     // Names of the runs the locator was healed in
+}
+
+/**
+ * Group healing events by what they would update. The most recent healed
+ * locator wins when the same element was healed differently.
+ */
+export function collectHealingSuggestions(results: ExecutionResult[]): HealingSuggestion[] {
+  const suggestions = new Map<string, HealingSuggestion>();
+
+  for (const result of results) {
+    for (const event of result.healing || []) {
+      if (!event.healedLocator) {
+        continue;
+      }
+
+      const key = suggestionKey(event);
+      const existing = suggestions.get(key);
+      const testName = result.name || result.testCaseId;
+
+      if (existing) {
+        existing.occurrences++;
+        existing.healedLocator = event.healedLocator;
+        existing.strategy = event.strategy;
+        existing.confidence = event.confidence;
+        existing.candidates = event.candidates;
+        if (!existing.tests.includes(testName)) {
+          existing.tests.push(testName);
+        }
+      } else {
+        suggestions.set(key, {
+          number: suggestions.size + 1,
+          objectId: event.objectId,
+          objectName: event.objectName,
+          testFile: event.objectId ? undefined : event.testFile,
+          actionId: event.objectId ? undefined : event.actionId,
+          originalLocator: event.originalLocator,
+          healedLocator: event.healedLocator,
+          strategy: event.strategy,
+          confidence: event.confidence,
+          candidates: event.candidates,
+          occurrences: 1,
+          tests: [testName]
+        });
+      }
+    }
+  }
+
+  return [...suggestions.values()];
+}
+
+/**
+ * Where a suggestion is written: object name, "file#step", or undefined if it
+ * cannot be written back (no object or step recorded)
+ */
+export function describeSuggestionTarget(suggestion: HealingSuggestion): string | undefined {
+  if (suggestion.objectId) {
+    return `object ${suggestion.objectName || suggestion.objectId}`;
+  }
+  if (suggestion.testFile && suggestion.actionId) {
+    return `${suggestion.testFile}#${suggestion.actionId}`;
+  }
+  return undefined;
+}
+
+/**
+ * Write approved suggestions back. The healed locator becomes the primary
+ * locator and the broken one is kept as a fallback.
+ * Returns the number of suggestions applied.
+ */
+export function applyHealingSuggestions(suggestions: HealingSuggestion[], repositoryPath?: string): number {
+  let repository: ObjectRepositoryManager | undefined;
+  let applied = 0;
+
+  for (const suggestion of suggestions) {
+    try {
+      if (suggestion.objectId) {
+        if (!repository) {
+          repository = new ObjectRepositoryManager(repositoryPath);
+          repository.setChangeSource('healing');
+        }
+        applyToObject(repository, suggestion);
+      } else if (suggestion.testFile && suggestion.actionId) {
+        applyToTestCase(suggestion);
+      } else {
+        console.log(`⚠️  #${suggestion.number}: no object or step recorded - update ${suggestion.originalLocator.value} manually`);
+        continue;
+      }
+      applied++;
+    } catch (error: any) {
+      console.log(`❌ #${suggestion.number}: ${error.message}`);
+    }
+  }
+
+  return applied;
+}
+
+function applyToObject(repository: ObjectRepositoryManager, suggestion: HealingSuggestion): void {
+  const object = repository.getObject(suggestion.objectId!);
+  if (!object) {
+    throw new Error(`Object not found: ${suggestion.objectId}`);
+  }
+
+  repository.updateObject(object.id, {
+    locators: [
+      suggestion.healedLocator,
+      ...object.locators.filter(locator => !sameLocator(locator, suggestion.healedLocator))
+    ]
+  });
+  console.log(`✅ #${suggestion.number}: ${object.name} now uses ${suggestion.healedLocator.type}=${suggestion.healedLocator.value}`);
+}
+
+function applyToTestCase(suggestion: HealingSuggestion): void {
+  const testCase = JSON.parse(fs.readFileSync(suggestion.testFile!, 'utf-8'));
+  const action = findAction(testCase.actions || [], suggestion.actionId!);
+  if (!action) {
+    throw new Error(`Step ${suggestion.actionId} not found in ${suggestion.testFile}`);
+  }
+
+  const current: ElementLocator = action.target || suggestion.originalLocator;
+  const { fallbacks = [], ...primary } = current;
+  action.target = {
+    ...suggestion.healedLocator,
+    fallbacks: [primary, ...fallbacks].filter(locator => !sameLocator(locator, suggestion.healedLocator))
+  };
+
+  testCase.updatedAt = Date.now();
+  fs.writeFileSync(suggestion.testFile!, JSON.stringify(testCase, null, 2));
+  console.log(`✅ #${suggestion.number}: step "${action.description || action.id}" in ${suggestion.testFile} now uses ${suggestion.healedLocator.type}=${suggestion.healedLocator.value}`);
+}
+
+/**
+ * Find a step by id, including steps nested in if/while blocks
+ */
+function findAction(actions: any[], actionId: string): any {
+  for (const action of actions) {
+    if (action.id === actionId) {
+      return action;
+    }
+    const nested = findAction([...(action.steps || []), ...(action.elseSteps || [])], actionId);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+function suggestionKey(event: HealingEvent): string {
+  if (event.objectId) {
+    return `object:${event.objectId}`;
+  }
+  if (event.testFile && event.actionId) {
+    return `step:${event.testFile}#${event.actionId}`;
+  }
+  return `locator:${event.originalLocator.type}=${event.originalLocator.value}`;
+}
+
+function sameLocator(a: ElementLocator, b: ElementLocator): boolean {
+  return a.type === b.type && a.value === b.value;
+}
@@ -0,0 +1,196 @@
+import { ElementFingerprint, ElementLocator } from '../types';
+
+/**
+ * Appium page source (UiAutomator2 / XCUITest XML) as a node tree, for the
+ * mobile healing strategies and recorder fingerprints
+ */
+export interface SourceNode {
+  tag: string;                         // android.widget.Button, XCUIElementTypeButton, ...
+  attributes: Record<string, string>;
+  children: SourceNode[];
+  parent?: SourceNode;
+}
+
+// Attributes that describe state or geometry rather than identity
+const VOLATILE_ATTRIBUTES = new Set([
+  'bounds', 'x', 'y', 'width', 'height', 'index', 'instance', 'displayed', 'visible', 'enabled',
+  'focused', 'selected', 'checked', 'scrollable', 'long-clickable', 'clickable', 'focusable',
+  'checkable', 'password', 'accessible', 'package'
+]);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function parsePageSource(xml: string): SourceNode {
+  const root: SourceNode = { tag: '#document', attributes: {}, children: [] };
+  const stack: SourceNode[] = [root];
+  const tagPattern = /<(\/?)([\w.:-]+)((?:\s+[\w:.-]+\s*=\s*"[^"]*")*)\s*(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const [, closing, tag, attributeText, selfClosing] = match;
+    if (closing) {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([\w:.-]+)\s*=\s*"([^"]*)"/g;
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(attributeText)) !== null) {
+      attributes[attribute[1]] = decodeEntities(attribute[2]);
+    }
+
+    const parent = stack[stack.length - 1];
+    const node: SourceNode = { tag, attributes, children: [], parent };
+    parent.children.push(node);
+    if (!selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Element nodes in document order, without the hierarchy wrapper and hidden nodes
+ */
+export function visibleNodes(root: SourceNode): SourceNode[] {
+  const nodes: SourceNode[] = [];
+  const walk = (node: SourceNode) => {
+    for (const child of node.children) {
+      const hidden = child.attributes.displayed === 'false' || child.attributes.visible === 'false';
+      if (!hidden && !['hierarchy', 'AppiumAUT'].includes(child.tag)) {
+        nodes.push(child);
+      }
+      walk(child);
+    }
+  };
+  walk(root);
+  return nodes;
+}
+
+export function nodeClass(node: SourceNode): string {
+  return node.attributes.class || node.attributes.type || node.tag;
+}
+
+/**
+ * Visible text of a node (Android text, iOS label / value)
+ */
+export function nodeText(node: SourceNode): string {
+  return (node.attributes.text || node.attributes.label || node.attributes.value || '').trim();
+}
+
+/**
+ * Resource id without the package part ("com.shop:id/login_button" -> "login_button")
+ */
+export function resourceIdName(resourceId: string): string {
+  return resourceId.includes(':id/') ? resourceId.split(':id/')[1] : resourceId;
+}
+
+export function nodeBounds(node: SourceNode): ElementFingerprint['position'] {
+  const bounds = node.attributes.bounds?.match(/\[(-?\d+),(-?\d+)\]\[(-?\d+),(-?\d+)\]/);
+  if (bounds) {
+    const [x1, y1, x2, y2] = bounds.slice(1).map(Number);
+    return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+  }
+  if (node.attributes.x !== undefined && node.attributes.width !== undefined) {
+    return {
+      x: Number(node.attributes.x),
+      y: Number(node.attributes.y),
+      width: Number(node.attributes.width),
+      height: Number(node.attributes.height)
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Fingerprint of a page source node, comparable with scoreFingerprint
+ */
+export function nodeFingerprint(node: SourceNode): ElementFingerprint {
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(node.attributes)) {
+    if (value && !VOLATILE_ATTRIBUTES.has(name)) {
+      attributes[name] = value;
+    }
+  }
+
+  // Nearest text before the node among its siblings, e.g. the label of a field
+  const labels: string[] = [];
+  const siblings = node.parent?.children || [];
+  for (let i = siblings.indexOf(node) - 1; i >= 0; i--) {
+    const text = nodeText(siblings[i]);
+    if (text) {
+      labels.push(text.substring(0, 50));
+      break;
+    }
+  }
+
+  const domPath: string[] = [];
+  for (let current: SourceNode | undefined = node; current && current.tag !== '#document' && current.tag !== 'hierarchy'; current = current.parent) {
+    domPath.unshift(nodeClass(current));
+  }
+
+  return {
+    tagName: nodeClass(node),
+    attributes,
+    text: nodeText(node).substring(0, 100),
+    position: nodeBounds(node),
+    labels,
+    domPath
+  };
+}
+
+/**
+ * Shortest locator that identifies the node uniquely among `nodes`:
+ * resource id, accessibility id, text, then class and position
+ */
+export function nodeLocator(node: SourceNode, nodes: SourceNode[]): ElementLocator {
+  const unique = (attribute: string, value?: string) =>
+    !!value && nodes.filter(other => other.attributes[attribute] === value).length === 1;
+
+  const { attributes } = node;
+  if (unique('resource-id', attributes['resource-id'])) {
+    return { type: 'id', value: attributes['resource-id'] };
+  }
+  if (unique('content-desc', attributes['content-desc'])) {
+    return { type: 'accessibility_id', value: attributes['content-desc'] };
+  }
+  if (unique('name', attributes.name)) {
+    return { type: 'accessibility_id', value: attributes.name };
+  }
+  if (unique('text', attributes.text)) {
+    return { type: 'xpath', value: `//*[@text=${xpathLiteral(attributes.text)}]` };
+  }
+  if (unique('label', attributes.label)) {
+    return { type: 'xpath', value: `//*[@label=${xpathLiteral(attributes.label)}]` };
+  }
+
+  const className = nodeClass(node);
+  const sameClass = nodes.filter(other => nodeClass(other) === className);
+  return { type: 'xpath', value: `(//${className})[${sameClass.indexOf(node) + 1}]` };
+}
+
+function xpathLiteral(value: string): string {
+  if (!value.includes("'")) {
+    return `'${value}'`;
+  }
+  if (!value.includes('"')) {
+    return `"${value}"`;
+  }
+  return `concat('${value.split("'").join(`', "'", '`)}')`;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x?[0-9a-fA-F]+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) {
+      return String.fromCharCode(parseInt(code.substring(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCharCode(parseInt(code.substring(1), 10));
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
@@ -1,17 +1,43 @@
 import { Page } from 'playwright';
 import { Browser } from 'webdriverio';
-import { ElementLocator, PlatformType } from '../types';
+import { ElementLocator, PlatformType, HealingEvent, ElementFingerprint, FingerprintMatch } from '../types';
 import { ObjectRepositoryManager, UIObject } from '../repository/objectRepository';
+import { BUILT_IN_STRATEGIES, webLocator, mobileElement } from './strategies';
 
 /**
  * Self-Healing Engine - Like TestSigma
  * Automatically fix broken selectors when elements change
  */
 
+/**
+ * What a strategy knows about the element whose locator broke
+ */
+export interface StrategyInput {
+  locator: ElementLocator;             // The broken locator, with its fallbacks
+  attributes?: any;                    // Object repository attributes (text, type, placeholder, ...)
+  fingerprint?: ElementFingerprint;
+  objectName?: string;
+  scope?: any;                         // Parent element to search inside (Playwright Locator / WebdriverIO element)
+  confidenceThreshold: number;         // Minimum score for similarity-based strategies
+}
+
+export interface StrategyMatch {
+  element: any;                        // Playwright Locator (web) or WebdriverIO element (mobile)
+  locator: ElementLocator;             // Locator to suggest in place of the broken one
+  confidence?: number;
+  candidates?: FingerprintMatch[];
+}
+
+/**
+ * A way of finding an element again. Strategies run by ascending priority
+ * until one returns a match; `context` is the Playwright Page (web) or the
+ * WebdriverIO driver (mobile).
+ */
 export interface HealingStrategy {
   name: string;
   priority: number;
-  findElement: (context: any, originalLocator: ElementLocator, attributes?: any) => Promise<any>;
+  platform: PlatformType | 'all';
+  findElement: (context: any, input: StrategyInput) => Promise<StrategyMatch | null>;
 }
 
 export interface HealingResult {
@@ -22,18 +48,22 @@ export interface HealingResult {
   originalLocatorFailed: boolean;
   healingApplied: boolean;
   suggestedUpdate?: ElementLocator;
+  confidence?: number;               // Fingerprint similarity of the healed element
+}
+
+export interface HealingOptions {
+  timeout?: number;                  // Wait up to this long (ms) for the original locator before healing
+  fingerprint?: ElementFingerprint;  // Recorded element - enables similarity healing
+  scope?: any;                       // Parent element of a scoped repository object
 }
 
 export class SelfHealingEngine {
   private objectRepository?: ObjectRepositoryManager;
   private healingEnabled: boolean = true;
-  private healingLog: Array<{
-    timestamp: number;
-    objectName?: string;
-    originalLocator: ElementLocator;
-    healedLocator?: ElementLocator;
-    strategy: string;
-  }> = [];
+  private healingLog: HealingEvent[] = [];
+  private context: Pick<HealingEvent, 'objectId' | 'testFile' | 'actionId'> = {};
+  private confidenceThreshold = 0.7;
+  private strategies: HealingStrategy[] = [...BUILT_IN_STRATEGIES];
 
   constructor(objectRepository?: ObjectRepositoryManager) {
     this.objectRepository = objectRepository;
@@ -47,6 +77,61 @@ export class SelfHealingEngine {
     console.log(`🔧 Self-healing ${enabled ? 'ENABLED' : 'DISABLED'}`);
   }
 
+  /**
+   * Minimum fingerprint similarity (0..1) for a candidate to be accepted
+   */
+  setConfidenceThreshold(threshold: number): void {
+    if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+      throw new Error(`Confidence threshold must be between 0 and 1, got ${threshold}`);
+    }
+    this.confidenceThreshold = threshold;
+  }
+
+  /**
+   * Add a strategy. A strategy with the same name and platform replaces the existing one.
+   */
+  registerStrategy(strategy: HealingStrategy): void {
+    if (!strategy?.name || typeof strategy.findElement !== 'function') {
+      throw new Error('A healing strategy needs a name and a findElement function');
+    }
+    if (typeof strategy.priority !== 'number' || !strategy.platform) {
+      throw new Error(`Healing strategy "${strategy.name}" needs a numeric priority and a platform`);
+    }
+
+    this.strategies = this.strategies.filter(existing =>
+      !(existing.name === strategy.name && existing.platform === strategy.platform)
+    );
+    this.strategies.push(strategy);
+  }
+
+  /**
+   * Remove strategies by name (all platforms unless one is given).
+   * Returns the number removed.
+   */
+  unregisterStrategy(name: string, platform?: PlatformType | 'all'): number {
+    const before = this.strategies.length;
+    this.strategies = this.strategies.filter(strategy =>
+      !(strategy.name === name && (!platform || strategy.platform === platform))
+    );
+    return before - this.strategies.length;
+  }
+
+  /**
+   * Strategies that run for a platform, in order
+   */
+  getStrategies(platform: PlatformType): HealingStrategy[] {
+    return this.strategies
+      .filter(strategy => strategy.platform === platform || strategy.platform === 'all')
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * Step being executed - recorded on healing events so fixes can be written back
+   */
+  setContext(context: Pick<HealingEvent, 'objectId' | 'testFile' | 'actionId'>): void {
+    this.context = context;
+  }
+
   /**
    * Find element with self-healing for Web (Playwright)
    */
@@ -54,11 +139,15 @@ export class SelfHealingEngine {
     page: Page,
     locator: ElementLocator,
     attributes?: any,
-    objectName?: string
+    objectName?: string,
+    options: HealingOptions = {}
   ): Promise<HealingResult> {
-    // Try original locator first
+    // Try original locator first, giving the page up to `timeout` ms to render it
     try {
-      const element = await page.locator(locator.value);
+      const element = webLocator(options.scope || page, locator);
+      if (options.timeout) {
+        await element.first().waitFor({ state: 'attached', timeout: options.timeout });
+      }
       const count = await element.count();
 
       if (count > 0) {
@@ -75,166 +164,7 @@ export class SelfHealingEngine {
       console.log(`⚠️  Original locator failed: ${locator.value}`);
     }
 
-    // Original failed - try self-healing
-    if (!this.healingEnabled) {
-      return {
-        success: false,
-        originalLocatorFailed: true,
-        healingApplied: false
-      };
-    }
-
-    console.log(`🔍 Attempting self-healing for: ${objectName || locator.value}`);
-
-    // Strategy 1: Try fallback locators
-    if (locator.fallbacks && locator.fallbacks.length > 0) {
-      for (const fallback of locator.fallbacks) {
-        try {
-          const element = await page.locator(fallback.value);
-          const count = await element.count();
-
-          if (count > 0) {
-            console.log(`✅ Healed using fallback: ${fallback.value}`);
-            this.logHealing(locator, fallback, 'fallback', objectName);
-
-            return {
-              success: true,
-              element,
-              usedLocator: fallback,
-              originalLocatorFailed: true,
-              healingApplied: true,
-              strategyUsed: 'fallback',
-              suggestedUpdate: fallback
-            };
-          }
-        } catch {}
-      }
-    }
-
-    // Strategy 2: Try by text content
-    if (attributes?.text) {
-      try {
-        const element = page.getByText(attributes.text);
-        const count = await element.count();
-
-        if (count > 0) {
-          const newLocator: ElementLocator = {
-            type: 'text',
-            value: attributes.text
-          };
-
-          console.log(`✅ Healed using text: "${attributes.text}"`);
-          this.logHealing(locator, newLocator, 'text-content', objectName);
-
-          return {
-            success: true,
-            element,
-            usedLocator: newLocator,
-            originalLocatorFailed: true,
-            healingApplied: true,
-            strategyUsed: 'text-content',
-            suggestedUpdate: newLocator
-          };
-        }
-      } catch {}
-    }
-
-    // Strategy 3: Try by placeholder
-    if (attributes?.placeholder) {
-      try {
-        const element = page.getByPlaceholder(attributes.placeholder);
-        const count = await element.count();
-
-        if (count > 0) {
-          const newLocator: ElementLocator = {
-            type: 'placeholder',
-            value: attributes.placeholder
-          };
-
-          console.log(`✅ Healed using placeholder: "${attributes.placeholder}"`);
-          this.logHealing(locator, newLocator, 'placeholder', objectName);
-
-          return {
-            success: true,
-            element,
-            usedLocator: newLocator,
-            originalLocatorFailed: true,
-            healingApplied: true,
-            strategyUsed: 'placeholder',
-            suggestedUpdate: newLocator
-          };
-        }
-      } catch {}
-    }
-
-    // Strategy 4: Try by role and name
-    if (attributes?.type && attributes?.text) {
-      try {
-        const element = page.getByRole(attributes.type as any, { name: attributes.text });
-        const count = await element.count();
-
-        if (count > 0) {
-          const newLocator: ElementLocator = {
-            type: 'role',
-            value: `${attributes.type}:${attributes.text}`
-          };
-
-          console.log(`✅ Healed using role: ${attributes.type} with name "${attributes.text}"`);
-          this.logHealing(locator, newLocator, 'role', objectName);
-
-          return {
-            success: true,
-            element,
-            usedLocator: newLocator,
-            originalLocatorFailed: true,
-            healingApplied: true,
-            strategyUsed: 'role',
-            suggestedUpdate: newLocator
-          };
-        }
-      } catch {}
-    }
-
-    // Strategy 5: Try partial selectors (remove IDs that might have changed)
-    if (locator.type === 'css' && locator.value.includes('#')) {
-      try {
-        // Remove dynamic IDs (anything after #)
-        const withoutId = locator.value.split('#')[0];
-        if (withoutId) {
-          const element = await page.locator(withoutId);
-          const count = await element.count();
-
-          if (count === 1) { // Only if unique
-            const newLocator: ElementLocator = {
-              type: 'css',
-              value: withoutId
-            };
-
-            console.log(`✅ Healed using partial selector: ${withoutId}`);
-            this.logHealing(locator, newLocator, 'partial-selector', objectName);
-
-            return {
-              success: true,
-              element,
-              usedLocator: newLocator,
-              originalLocatorFailed: true,
-              healingApplied: true,
-              strategyUsed: 'partial-selector',
-              suggestedUpdate: newLocator
-            };
-          }
-        }
-      } catch {}
-    }
-
-    // All healing strategies failed
-    console.log(`❌ Self-healing failed for: ${objectName || locator.value}`);
-
-    return {
-      success: false,
-      originalLocatorFailed: true,
-      healingApplied: true
-    };
+    return this.heal(PlatformType.WEB, page, { locator, attributes, objectName, fingerprint: options.fingerprint, scope: options.scope });
   }
 
   /**
@@ -244,26 +174,15 @@ export class SelfHealingEngine {
     driver: Browser,
     locator: ElementLocator,
     attributes?: any,
-    objectName?: string
+    objectName?: string,
+    options: HealingOptions = {}
   ): Promise<HealingResult> {
-    // Try original locator first
+    // Try original locator first, giving the app up to `timeout` ms to show it
     try {
-      let element;
-
-      switch (locator.type) {
-        case 'id':
-          element = await driver.$(`~${locator.value}`);
-          break;
-        case 'xpath':
-          element = await driver.$(locator.value);
-          break;
-        case 'accessibility_id':
-          element = await driver.$(`~${locator.value}`);
-          break;
-        default:
-          element = await driver.$(locator.value);
+      const element = await mobileElement(options.scope || driver, locator);
+      if (options.timeout) {
+        await element.waitForDisplayed({ timeout: options.timeout });
       }
-
       const exists = await element.isDisplayed();
 
       if (exists) {
@@ -279,7 +198,17 @@ export class SelfHealingEngine {
       console.log(`⚠️  Original locator failed: ${locator.value}`);
     }
 
-    // Try self-healing
+    return this.heal(PlatformType.MOBILE, driver, { locator, attributes, objectName, fingerprint: options.fingerprint, scope: options.scope });
+  }
+
+  /**
+   * Run the platform's strategies in priority order until one finds the element
+   */
+  private async heal(
+    platform: PlatformType,
+    context: Page | Browser,
+    input: Omit<StrategyInput, 'confidenceThreshold'>
+  ): Promise<HealingResult> {
     if (!this.healingEnabled) {
       return {
         success: false,
@@ -288,61 +217,46 @@ export class SelfHealingEngine {
       };
     }
 
-    console.log(`🔍 Attempting mobile self-healing for: ${objectName || locator.value}`);
-
-    // Try fallback locators
-    if (locator.fallbacks && locator.fallbacks.length > 0) {
-      for (const fallback of locator.fallbacks) {
-        try {
-          const element = await driver.$(fallback.value);
-          const exists = await element.isDisplayed();
-
-          if (exists) {
-            console.log(`✅ Healed using fallback: ${fallback.value}`);
-            this.logHealing(locator, fallback, 'fallback', objectName);
-
-            return {
-              success: true,
-              element,
-              usedLocator: fallback,
-              originalLocatorFailed: true,
-              healingApplied: true,
-              strategyUsed: 'fallback',
-              suggestedUpdate: fallback
-            };
-          }
-        } catch {}
-      }
-    }
+    const target = input.objectName || input.locator.value;
+    console.log(`🔍 Attempting ${platform} self-healing for: ${target}`);
+
+    // One input object per attempt - strategies may cache page data on it
+    const strategyInput: StrategyInput = { ...input, confidenceThreshold: this.confidenceThreshold };
 
-    // Try by text content
-    if (attributes?.text) {
+    for (const strategy of this.getStrategies(platform)) {
+      let match: StrategyMatch | null;
       try {
-        const element = await driver.$(`//*[@text='${attributes.text}']`);
-        const exists = await element.isDisplayed();
-
-        if (exists) {
-          const newLocator: ElementLocator = {
-            type: 'xpath',
-            value: `//*[@text='${attributes.text}']`
-          };
-
-          console.log(`✅ Healed using text: "${attributes.text}"`);
-          this.logHealing(locator, newLocator, 'text-content', objectName);
-
-          return {
-            success: true,
-            element,
-            usedLocator: newLocator,
-            originalLocatorFailed: true,
-            healingApplied: true,
-            strategyUsed: 'text-content',
-            suggestedUpdate: newLocator
-          };
-        }
-      } catch {}
+        match = await strategy.findElement(context, strategyInput);
+      } catch (error: any) {
+        console.log(`⚠️  Healing strategy "${strategy.name}" failed: ${error.message}`);
+        continue;
+      }
+      if (!match) {
+        continue;
+      }
+
+      const confidence = match.confidence !== undefined ? ` (${Math.round(match.confidence * 100)}% match)` : '';
+      console.log(`✅ Healed using ${strategy.name}${confidence}: ${match.locator.value}`);
+      this.logHealing(input.locator, match.locator, strategy.name, input.objectName, {
+        confidence: match.confidence,
+        candidates: match.candidates
+      });
+
+      return {
+        success: true,
+        element: match.element,
+        usedLocator: match.locator,
+        originalLocatorFailed: true,
+        healingApplied: true,
+        strategyUsed: strategy.name,
+        suggestedUpdate: match.locator,
+        confidence: match.confidence
+      };
     }
 
+    // All healing strategies failed
+    console.log(`❌ Self-healing failed for: ${target}`);
+
     return {
       success: false,
       originalLocatorFailed: true,
@@ -357,17 +271,27 @@ export class SelfHealingEngine {
     originalLocator: ElementLocator,
     healedLocator: ElementLocator,
     strategy: string,
-    objectName?: string
+    objectName?: string,
+    match?: Pick<HealingEvent, 'confidence' | 'candidates'>
   ): void {
     this.healingLog.push({
       timestamp: Date.now(),
+      ...this.context,
       objectName,
       originalLocator,
       healedLocator,
-      strategy
+      strategy,
+      ...match
     });
   }
 
+  /**
+   * All healing events of this engine, oldest first
+   */
+  getHealingLog(): HealingEvent[] {
+    return [...this.healingLog];
+  }
+
   /**
    * Get healing statistics
    */
@@ -0,0 +1,421 @@
+import type { Page, Locator } from 'playwright';
+import type { Browser } from 'webdriverio';
+import { ElementLocator, PlatformType } from '../types';
+import type { HealingStrategy, StrategyInput, StrategyMatch } from './selfHealing';
+import { FINGERPRINT_SCRIPT, collectCandidates, scoreFingerprint } from './fingerprint';
+import { SourceNode, parsePageSource, visibleNodes, nodeClass, nodeText, nodeFingerprint, nodeLocator, resourceIdName } from './pageSource';
+
+/**
+ * Built-in self-healing strategies. Lower priority runs first; project
+ * strategies registered from plugins slot in between by priority.
+ */
+
+// Most elements scored per fingerprint match, and how many are reported
+const MAX_FINGERPRINT_CANDIDATES = 500;
+const REPORTED_CANDIDATES = 3;
+
+/**
+ * Playwright locator for any stored locator type, on the page or inside a
+ * parent element (XPath starting with / is then relative to the parent,
+ * except absolute /html/... paths, which always match on the whole page)
+ */
+export function webLocator(page: Page | Locator, locator: ElementLocator) {
+  switch (locator.type) {
+    case 'xpath': {
+      const xpath = locator.value.replace(/^xpath=/, '');
+      const root = /^\/html\b/i.test(xpath) && 'page' in page ? page.page() : page;
+      return root.locator(`xpath=${xpath}`);
+    }
+    case 'id':
+      return page.locator(`[id="${locator.value}"]`);
+    case 'name':
+      return page.locator(`[name="${locator.value}"]`);
+    case 'text':
+      return page.getByText(locator.value);
+    case 'placeholder':
+      return page.getByPlaceholder(locator.value);
+    case 'role': {
+      const [role, ...name] = locator.value.split(':');
+      return page.getByRole(role as any, name.length > 0 ? { name: name.join(':') } : undefined);
+    }
+    default:
+      return page.locator(locator.value);
+  }
+}
+
+/**
+ * WebdriverIO element for a stored locator, on the screen or inside a parent element
+ */
+export async function mobileElement(driver: Pick<Browser, '$'>, locator: ElementLocator) {
+  switch (locator.type) {
+    case 'id':
+      return driver.$(`id=${locator.value}`);
+    case 'accessibility_id':
+      return driver.$(`~${locator.value}`);
+    default:
+      return driver.$(locator.value);
+  }
+}
+
+// Page source of the screen being healed, fetched once per healing attempt
+const pageSources = new WeakMap<StrategyInput, Promise<SourceNode[]>>();
+
+function sourceNodes(driver: Browser, input: StrategyInput): Promise<SourceNode[]> {
+  if (!pageSources.has(input)) {
+    pageSources.set(input, driver.getPageSource().then(xml => visibleNodes(parsePageSource(xml))));
+  }
+  return pageSources.get(input)!;
+}
+
+async function matchNode(driver: Browser, node: SourceNode, nodes: SourceNode[]): Promise<StrategyMatch> {
+  const locator = nodeLocator(node, nodes);
+  return { element: await mobileElement(driver, locator), locator };
+}
+
+function normalize(value?: string): string {
+  return (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Value of an attribute in an XPath locator, e.g. @text='Login'
+ */
+function xpathAttribute(locator: ElementLocator, attribute: string): string | undefined {
+  if (locator.type !== 'xpath') {
+    return undefined;
+  }
+  return locator.value.match(new RegExp(`@${attribute}\\s*=\\s*["']([^"']+)["']`))?.[1];
+}
+
+const webFallback: HealingStrategy = {
+  name: 'fallback',
+  priority: 10,
+  platform: PlatformType.WEB,
+  findElement: async (page: Page, { locator, scope }) => {
+    for (const fallback of locator.fallbacks || []) {
+      try {
+        const element = webLocator(scope || page, fallback);
+        if (await element.count() > 0) {
+          return { element, locator: fallback };
+        }
+      } catch {}
+    }
+    return null;
+  }
+};
+
+/**
+ * Scores the page's elements against the recorded fingerprint and takes the
+ * best one if it reaches the confidence threshold
+ */
+const webFingerprint: HealingStrategy = {
+  name: 'fingerprint',
+  priority: 20,
+  platform: PlatformType.WEB,
+  findElement: async (page: Page, { fingerprint, confidenceThreshold, scope }) => {
+    if (!fingerprint) {
+      return null;
+    }
+
+    await page.evaluate(FINGERPRINT_SCRIPT);
+    // The parent's ElementHandle arrives in the page as the element itself
+    const args: any = {
+      tagName: fingerprint.tagName,
+      limit: MAX_FINGERPRINT_CANDIDATES,
+      root: scope ? await scope.elementHandle() : undefined
+    };
+    const candidates = await page.evaluate(collectCandidates, args);
+    const matches = candidates
+      .map(candidate => ({
+        ...scoreFingerprint(fingerprint, candidate.fingerprint),
+        locator: { type: 'xpath' as const, value: candidate.xpath },
+        css: candidate.css
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const best = matches[0];
+    if (!best || best.score < confidenceThreshold) {
+      console.log(`   Best fingerprint match ${best ? Math.round(best.score * 100) : 0}%, needs ${Math.round(confidenceThreshold * 100)}%`);
+      return null;
+    }
+
+    // Suggest the short selector when it still identifies the element uniquely
+    // (within the parent element for scoped objects)
+    let locator: ElementLocator = best.locator;
+    let root: Page | Locator = page;
+    if (best.css && await webLocator(scope || page, { type: 'css', value: best.css }).count() === 1) {
+      locator = { type: 'css', value: best.css };
+      root = scope || page;
+    }
+
+    return {
+      element: webLocator(root, locator),
+      locator,
+      confidence: best.score,
+      candidates: matches.slice(0, REPORTED_CANDIDATES).map(({ locator, score, breakdown }) => ({ locator, score, breakdown }))
+    };
+  }
+};
+
+// The single-attribute strategies below take the first match - with a
+// fingerprint recorded, the scored match above is used instead
+
+const webText: HealingStrategy = {
+  name: 'text-content',
+  priority: 30,
+  platform: PlatformType.WEB,
+  findElement: async (page: Page, { attributes, fingerprint, scope }) => {
+    if (fingerprint || !attributes?.text) {
+      return null;
+    }
+    const element = (scope || page).getByText(attributes.text);
+    return await element.count() > 0 ? { element, locator: { type: 'text', value: attributes.text } } : null;
+  }
+};
+
+const webPlaceholder: HealingStrategy = {
+  name: 'placeholder',
+  priority: 40,
+  platform: PlatformType.WEB,
+  findElement: async (page: Page, { attributes, fingerprint, scope }) => {
+    if (fingerprint || !attributes?.placeholder) {
+      return null;
+    }
+    const element = (scope || page).getByPlaceholder(attributes.placeholder);
+    return await element.count() > 0 ? { element, locator: { type: 'placeholder', value: attributes.placeholder } } : null;
+  }
+};
+
+const webRole: HealingStrategy = {
+  name: 'role',
+  priority: 50,
+  platform: PlatformType.WEB,
+  findElement: async (page: Page, { attributes, fingerprint, scope }) => {
+    if (fingerprint || !attributes?.type || !attributes?.text) {
+      return null;
+    }
+    const element = (scope || page).getByRole(attributes.type as any, { name: attributes.text });
+    return await element.count() > 0
+      ? { element, locator: { type: 'role', value: `${attributes.type}:${attributes.text}` } }
+      : null;
+  }
+};
+
+/**
+ * Drops the id part of a CSS selector (ids are often generated)
+ */
+const webPartialSelector: HealingStrategy = {
+  name: 'partial-selector',
+  priority: 60,
+  platform: PlatformType.WEB,
+  findElement: async (page: Page, { locator, fingerprint, scope }) => {
+    if (fingerprint || locator.type !== 'css' || !locator.value.includes('#')) {
+      return null;
+    }
+    const withoutId = locator.value.split('#')[0];
+    if (!withoutId) {
+      return null;
+    }
+    const element = (scope || page).locator(withoutId);
+    return await element.count() === 1 ? { element, locator: { type: 'css', value: withoutId } } : null; // Only if unique
+  }
+};
+
+const mobileFallback: HealingStrategy = {
+  name: 'fallback',
+  priority: 10,
+  platform: PlatformType.MOBILE,
+  findElement: async (driver: Browser, { locator, scope }) => {
+    for (const fallback of locator.fallbacks || []) {
+      try {
+        const element = await mobileElement(scope || driver, fallback);
+        if (await element.isDisplayed()) {
+          return { element, locator: fallback };
+        }
+      } catch {}
+    }
+    return null;
+  }
+};
+
+/**
+ * Scores every node of the page source against the recorded fingerprint
+ */
+const mobileFingerprint: HealingStrategy = {
+  name: 'fingerprint',
+  priority: 20,
+  platform: PlatformType.MOBILE,
+  findElement: async (driver: Browser, input) => {
+    const { fingerprint, confidenceThreshold } = input;
+    if (!fingerprint) {
+      return null;
+    }
+
+    const nodes = await sourceNodes(driver, input);
+    const matches = nodes
+      .map(node => ({ node, ...scoreFingerprint(fingerprint, nodeFingerprint(node)) }))
+      .sort((a, b) => b.score - a.score);
+
+    const best = matches[0];
+    if (!best || best.score < confidenceThreshold) {
+      console.log(`   Best fingerprint match ${best ? Math.round(best.score * 100) : 0}%, needs ${Math.round(confidenceThreshold * 100)}%`);
+      return null;
+    }
+
+    return {
+      ...await matchNode(driver, best.node, nodes),
+      confidence: best.score,
+      candidates: matches.slice(0, REPORTED_CANDIDATES).map(({ node, score, breakdown }) => ({
+        locator: nodeLocator(node, nodes),
+        score,
+        breakdown
+      }))
+    };
+  }
+};
+
+// As on the web, the first-match strategies below give way to the scored
+// match when a fingerprint was recorded
+
+const mobileText: HealingStrategy = {
+  name: 'text-content',
+  priority: 30,
+  platform: PlatformType.MOBILE,
+  findElement: async (driver: Browser, input) => {
+    const text = normalize(input.attributes?.text || xpathAttribute(input.locator, 'text'));
+    if (input.fingerprint || !text) {
+      return null;
+    }
+
+    const nodes = await sourceNodes(driver, input);
+    const matches = nodes.filter(node => normalize(nodeText(node)) === text);
+    return matches.length === 1 ? matchNode(driver, matches[0], nodes) : null;
+  }
+};
+
+/**
+ * Accessibility label: content-desc on Android, name on iOS
+ */
+const mobileContentDesc: HealingStrategy = {
+  name: 'content-desc',
+  priority: 35,
+  platform: PlatformType.MOBILE,
+  findElement: async (driver: Browser, input) => {
+    const { attributes, locator } = input;
+    const description = normalize(
+      attributes?.['content-desc'] || attributes?.contentDesc ||
+      (locator.type === 'accessibility_id' ? locator.value : xpathAttribute(locator, 'content-desc'))
+    );
+    if (input.fingerprint || !description) {
+      return null;
+    }
+
+    const nodes = await sourceNodes(driver, input);
+    const descriptionOf = (node: SourceNode) => normalize(node.attributes['content-desc'] || node.attributes.name);
+    let matches = nodes.filter(node => descriptionOf(node) === description);
+    if (matches.length === 0) {
+      matches = nodes.filter(node => descriptionOf(node) && (descriptionOf(node).includes(description) || description.includes(descriptionOf(node))));
+    }
+    return matches.length === 1 ? matchNode(driver, matches[0], nodes) : null;
+  }
+};
+
+/**
+ * Resource ids renamed between builds: same name under another package,
+ * or the most similar name ("login_button" -> "btn_login")
+ */
+const mobileResourceId: HealingStrategy = {
+  name: 'resource-id',
+  priority: 40,
+  platform: PlatformType.MOBILE,
+  findElement: async (driver: Browser, input) => {
+    const { attributes, locator } = input;
+    const resourceId = attributes?.['resource-id'] || attributes?.resourceId ||
+      (locator.type === 'id' ? locator.value : xpathAttribute(locator, 'resource-id'));
+    if (input.fingerprint || !resourceId) {
+      return null;
+    }
+
+    const nodes = await sourceNodes(driver, input);
+    const withIds = nodes.filter(node => node.attributes['resource-id']);
+    const name = resourceIdName(resourceId).toLowerCase();
+
+    const sameName = withIds.filter(node => resourceIdName(node.attributes['resource-id']).toLowerCase() === name);
+    if (sameName.length === 1) {
+      return matchNode(driver, sameName[0], nodes);
+    }
+
+    const expected = idWords(resourceIdName(resourceId));
+    const scored = withIds
+      .map(node => {
+        const actual = idWords(resourceIdName(node.attributes['resource-id']));
+        // Words match when equal or one is a prefix of the other ("pass" / "password")
+        const shared = expected.filter(word => actual.some(other =>
+          word === other || (Math.min(word.length, other.length) >= 3 && (word.startsWith(other) || other.startsWith(word)))
+        )).length;
+        return { node, score: shared / (expected.length + actual.length - shared) };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    // Only a clear winner - two equally similar ids are not a rename we can trust
+    const [best, second] = scored;
+    if (best && best.score >= 0.5 && (!second || best.score > second.score)) {
+      return matchNode(driver, best.node, nodes);
+    }
+    return null;
+  }
+};
+
+// Abbreviations common in Android resource ids
+const ID_ABBREVIATIONS: Record<string, string> = {
+  btn: 'button', txt: 'text', tv: 'text', et: 'edit', img: 'image', iv: 'image',
+  lbl: 'label', cb: 'checkbox', chk: 'checkbox', pwd: 'password', msg: 'message',
+  nav: 'navigation', cfg: 'config', desc: 'description'
+};
+
+/**
+ * Words of a resource id name, camelCase and snake_case split and abbreviations expanded
+ */
+function idWords(name: string): string[] {
+  const words = name
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(word => ID_ABBREVIATIONS[word] || word);
+  return [...new Set(words)];
+}
+
+/**
+ * Same class at the same index under its parent, when nothing else identifies the element
+ */
+const mobileClassIndex: HealingStrategy = {
+  name: 'class-index',
+  priority: 50,
+  platform: PlatformType.MOBILE,
+  findElement: async (driver: Browser, input) => {
+    const className = input.attributes?.className || input.attributes?.class;
+    const index = input.attributes?.index;
+    if (input.fingerprint || !className || index === undefined) {
+      return null;
+    }
+
+    const nodes = await sourceNodes(driver, input);
+    const matches = nodes.filter(node => nodeClass(node) === className && node.attributes.index === String(index));
+    return matches.length === 1 ? matchNode(driver, matches[0], nodes) : null;
+  }
+};
+
+export const BUILT_IN_STRATEGIES: HealingStrategy[] = [
+  webFallback,
+  webFingerprint,
+  webText,
+  webPlaceholder,
+  webRole,
+  webPartialSelector,
+  mobileFallback,
+  mobileFingerprint,
+  mobileText,
+  mobileContentDesc,
+  mobileResourceId,
+  mobileClassIndex
+];
@@ -7,12 +7,125 @@ import { MobileRecorder } from './recorders/mobile/mobileRecorder';
 import { UnifiedRecorder } from './recorders/unified/unifiedRecorder';
 import { TestExecutor } from './executor/testExecutor';
 import { TestSuiteManager } from './suite/testSuite';
-import { PlatformType } from './types';
+import { Reporter } from './reporting/reporter';
+import { RunHistory } from './reporting/runHistory';
+import { compareReportFiles, printComparison } from './reporting/reportComparison';
+import { collectHealingSuggestions, describeSuggestionTarget, applyHealingSuggestions } from './healing/healingUpdates';
+import { SelfHealingEngine } from './healing/selfHealing';
+import { loadHealingPlugins } from './healing/healingPlugins';
+import { ObjectRepositoryManager, UIObject } from './repository/objectRepository';
+import { ObjectUsageIndex, ObjectUsage } from './repository/objectUsage';
+import { LocatorValidator, printValidationReport, saveValidationReport } from './repository/locatorValidation';
+import { ObjectRepositoryEditor } from './repository/objectEditor';
+import { resolveAllConflicts, unresolvedConflicts, printMergeReport, saveMergeReport, MergePolicy } from './repository/repositoryMerge';
+import { parseVariableAssignments } from './executor/variables';
+import { browserManager } from './browser/browserManager';
+import { PlatformType, BrowserName, ArtifactMode, ArtifactOptions, HealingMode, ElementLocator } from './types';
 import * as path from 'path';
 import * as fs from 'fs';
 
 const program = new Command();
 
+const BROWSER_NAMES: BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
+/**
+ * --headless / --browser switch executions to direct launch mode (no browser
+ * server, no CDP endpoint file). Returns true when direct launch is used.
+ */
+function configureBrowserLaunch(options: { headless?: boolean; browser?: string }): boolean {
+  if (!options.headless && !options.browser) {
+    return false;
+  }
+
+  if (options.browser && !BROWSER_NAMES.includes(options.browser as BrowserName)) {
+    throw new Error(`Unknown browser: ${options.browser} (expected ${BROWSER_NAMES.join(', ')})`);
+  }
+
+  browserManager.configure({ browser: options.browser as BrowserName, headless: !!options.headless });
+  return true;
+}
+
+/**
+ * --trace / --video: a bare flag keeps recordings of failed tests only
+ */
+function parseArtifactOptions(options: { trace?: string | boolean; video?: string | boolean; snapshots?: string; artifactsDir?: string }): ArtifactOptions {
+  const mode = (value?: string | boolean): ArtifactMode => {
+    if (value === undefined || value === false) return 'off';
+    if (value === true) return 'retain-on-failure';
+    if (!['off', 'on', 'retain-on-failure'].includes(value)) {
+      throw new Error(`Invalid recording mode: ${value} (expected off, on or retain-on-failure)`);
+    }
+    return value as ArtifactMode;
+  };
+
+  return {
+    trace: mode(options.trace),
+    video: mode(options.video),
+    stepSnapshots: mode(options.snapshots),
+    outputDir: options.artifactsDir
+  };
+}
+
+/**
+ * --healing: off, suggest (default) or auto
+ */
+function parseHealingMode(mode?: string): HealingMode {
+  if (mode && !['off', 'suggest', 'auto'].includes(mode)) {
+    throw new Error(`Invalid healing mode: ${mode} (expected off, suggest or auto)`);
+  }
+  return (mode || 'suggest') as HealingMode;
+}
+
+/**
+ * Parse a comma-separated --browsers list
+ */
+function parseBrowserList(list?: string): BrowserName[] | undefined {
+  if (!list) {
+    return undefined;
+  }
+
+  const browsers = list.split(',').map(name => name.trim()).filter(Boolean);
+  const unknown = browsers.filter(name => !BROWSER_NAMES.includes(name as BrowserName));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown browser(s): ${unknown.join(', ')} (expected ${BROWSER_NAMES.join(', ')})`);
+  }
+  return browsers as BrowserName[];
+}
+
+/**
+ * Object repository for the repo:* commands - changes are recorded as 'cli'
+ */
+function openRepository(file: string): ObjectRepositoryManager {
+  const repository = new ObjectRepositoryManager(file);
+  repository.setChangeSource('cli');
+  return repository;
+}
+
+/**
+ * Repository object by ID or name
+ */
+function findRepositoryObject(repository: ObjectRepositoryManager, reference: string): UIObject {
+  const object = repository.getObject(reference) || repository.getObjectByName(reference);
+  if (!object) {
+    throw new Error(`Object not found: ${reference}`);
+  }
+  return object;
+}
+
+/**
+ * Usage index over the --tests directories and --suites folder
+ */
+function buildUsageIndex(options: { tests: string[]; suites: string }): ObjectUsageIndex {
+  return new ObjectUsageIndex({ testDirs: options.tests, suitesDir: options.suites }).build();
+}
+
+function printUsages(usages: ObjectUsage[]): void {
+  usages.forEach(usage => {
+    const suites = usage.suites.length > 0 ? ` [${usage.suites.join(', ')}]` : '';
+    console.log(`     ${path.relative(process.cwd(), usage.testFile)} step ${usage.step}: ${usage.description || usage.actionId}${suites}`);
+  });
+}
+
 program
   .name('qa-automation')
   .description('Cross-platform test automation with recorder for Web, Desktop, and Mobile')
@@ -28,6 +141,7 @@ program
   .option('-n, --name <name>', 'Test case name', 'Recorded Web Test')
   .option('--no-screenshots', 'Disable screenshots on each action')
   .option('--continue', 'Continue existing test (append new actions)')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
   .action(async (options) => {
     const recorder = new WebRecorder({
       platform: PlatformType.WEB,
@@ -36,7 +150,8 @@ program
       browser: options.browser as any,
       screenshotOnAction: options.screenshots,
       testName: options.name,
-      continueExisting: options.continue
+      continueExisting: options.continue,
+      repositoryPath: options.repository
     });
 
     await recorder.start();
@@ -214,9 +329,25 @@ program
   .argument('<testfile>', 'Path to test case JSON file')
   .option('-r, --report <path>', 'Generate report at path')
   .option('-l, --loop <count>', 'Number of times to loop the test', '1')
+  .option('-e, --env <name>', 'Environment name or file (environments/<name>.json)')
+  .option('--var <key=value...>', 'Set run variables (override test, suite and environment values)')
+  .option('-d, --data <file>', 'CSV/JSON dataset - run the test once per row')
+  .option('--junit <path>', 'Write a JUnit XML report')
+  .option('--history <file>', 'Run history file', './reports/history.jsonl')
+  .option('--no-history', 'Do not record this run in the history')
+  .option('--headless', 'Launch the browser headless instead of using the browser server')
+  .option('--browser <browser>', 'Launch this browser directly (chromium, firefox, webkit)')
+  .option('--trace [mode]', 'Record a Playwright trace (on | retain-on-failure, default retain-on-failure)')
+  .option('--video [mode]', 'Record a video (on | retain-on-failure, default retain-on-failure)')
+  .option('--snapshots <mode>', 'Screenshot and DOM snapshot per step (off | on | retain-on-failure)', 'retain-on-failure')
+  .option('--artifacts-dir <dir>', 'Where traces, videos and step snapshots are saved', './reports/artifacts')
+  .option('--healing <mode>', 'Self-healing of broken locators (off | suggest | auto)', 'suggest')
+  .option('--repository <file>', 'Object repository used by steps with an objectId')
+  .option('--healing-threshold <score>', 'Minimum fingerprint similarity (0-1) for a healed element', '0.7')
+  .option('--config <file>', 'Project config with healing plugins', './qa.config.json')
   .action(async (testfile, options) => {
-    const executor = new TestExecutor();
     let keepAliveTimer: NodeJS.Timeout | null = null;
+    let directLaunch = false;
 
     // Setup signal handlers for graceful termination
     const cleanup = () => {
@@ -231,16 +362,45 @@ program
     process.on('SIGINT', cleanup);
 
     try {
+      directLaunch = configureBrowserLaunch(options);
+      const executor = new TestExecutor({
+        environment: options.env,
+        variables: parseVariableAssignments(options.var),
+        artifacts: parseArtifactOptions(options),
+        healing: parseHealingMode(options.healing),
+        healingThreshold: parseFloat(options.healingThreshold),
+        config: options.config,
+        repository: options.repository
+      });
       const loopCount = parseInt(options.loop);
-      const result = await executor.executeFromFile(testfile, loopCount);
+      const results = await executor.executeAllFromFile(testfile, loopCount, options.data);
+      const failed = results.filter(r => r.status === 'failed').length;
 
       if (options.report) {
         executor.generateReport(options.report);
       }
+      if (options.junit) {
+        const reporter = new Reporter();
+        reporter.addResults(results);
+        reporter.saveJUnitReport(options.junit, path.basename(testfile, '.json'));
+      }
+      if (options.history !== false) {
+        new RunHistory(options.history).record({
+          suiteName: path.basename(testfile, '.json'),
+          environment: executor.getEnvironmentName(),
+          results
+        });
+      }
 
       // Signal completion without exiting (to keep browser alive)
       console.log('###EXECUTION_COMPLETE###');
-      console.log(`EXIT_CODE:${result.status === 'passed' ? 0 : 1}`);
+      console.log(`EXIT_CODE:${failed > 0 ? 1 : 0}`);
+
+      // Directly launched browsers are not shared - close and exit
+      if (directLaunch) {
+        await browserManager.closeBrowser();
+        process.exit(failed > 0 ? 1 : 0);
+      }
 
       // Keep process alive to preserve browser session
       console.log('🌐 Keeping process alive to preserve browser session...');
@@ -252,6 +412,11 @@ program
       console.log('###EXECUTION_COMPLETE###');
       console.log('EXIT_CODE:1');
 
+      if (directLaunch) {
+        await browserManager.closeBrowser();
+        process.exit(1);
+      }
+
       // Keep process alive even on error
       console.log('🌐 Keeping process alive to preserve browser session...');
       keepAliveTimer = setInterval(() => {}, 60000);
@@ -355,11 +520,29 @@ program
   .argument('<suite-id>', 'Test suite ID')
   .option('-r, --report <path>', 'Report output path')
   .option('-l, --loop <count>', 'Number of times to loop the entire suite', '1')
+  .option('-e, --env <name>', 'Environment name or file (environments/<name>.json)')
+  .option('--var <key=value...>', 'Set run variables (override test, suite and environment values)')
+  .option('-w, --workers <count>', 'Number of test cases to run in parallel (each in its own browser context)', '1')
+  .option('--headless', 'Launch the browser headless instead of using the browser server')
+  .option('--browser <browser>', 'Launch this browser directly (chromium, firefox, webkit)')
+  .option('--trace [mode]', 'Record a Playwright trace (on | retain-on-failure, default retain-on-failure)')
+  .option('--video [mode]', 'Record a video (on | retain-on-failure, default retain-on-failure)')
+  .option('--snapshots <mode>', 'Screenshot and DOM snapshot per step (off | on | retain-on-failure)', 'retain-on-failure')
+  .option('--artifacts-dir <dir>', 'Where traces, videos and step snapshots are saved', './reports/artifacts')
+  .option('--healing <mode>', 'Self-healing of broken locators (off | suggest | auto)', 'suggest')
+  .option('--repository <file>', 'Object repository used by steps with an objectId')
+  .option('--healing-threshold <score>', 'Minimum fingerprint similarity (0-1) for a healed element', '0.7')
+  .option('--config <file>', 'Project config with healing plugins', './qa.config.json')
+  .option('--junit <path>', 'Also write a JUnit XML report')
+  .option('--history <file>', 'Run history file', './reports/history.jsonl')
+  .option('--no-history', 'Do not record this run in the history')
+  .option('--browsers <list>', 'Browser matrix - run every test once per engine (e.g. chromium,firefox,webkit)')
   .action(async (suiteId, options) => {
     const manager = new TestSuiteManager();
     const reportPath = options.report || `./reports/suite-${suiteId}-report.json`;
     const loopCount = parseInt(options.loop);
     let keepAliveTimer: NodeJS.Timeout | null = null;
+    let directLaunch = false;
 
     // Setup signal handlers for graceful termination
     const cleanup = () => {
@@ -374,13 +557,32 @@ program
     process.on('SIGINT', cleanup);
 
     try {
-      const results = await manager.executeSuite(suiteId, reportPath, loopCount);
+      directLaunch = configureBrowserLaunch(options);
+      const results = await manager.executeSuite(suiteId, reportPath, loopCount, {
+        environment: options.env,
+        variables: parseVariableAssignments(options.var),
+        workers: parseInt(options.workers),
+        browsers: parseBrowserList(options.browsers),
+        artifacts: parseArtifactOptions(options),
+        healing: parseHealingMode(options.healing),
+        healingThreshold: parseFloat(options.healingThreshold),
+        config: options.config,
+        repository: options.repository,
+        junit: options.junit,
+        history: options.history
+      });
       const failed = results.filter(r => r.status === 'failed').length;
 
       // Signal completion without exiting (to keep browser alive)
       console.log('###EXECUTION_COMPLETE###');
       console.log(`EXIT_CODE:${failed > 0 ? 1 : 0}`);
 
+      // Directly launched browsers are not shared - close and exit
+      if (directLaunch) {
+        await browserManager.closeBrowser();
+        process.exit(failed > 0 ? 1 : 0);
+      }
+
       // Keep process alive to preserve browser session
       console.log('🌐 Keeping process alive to preserve browser session...');
       keepAliveTimer = setInterval(() => {}, 60000); // Keep-alive timer every 60 seconds
@@ -390,12 +592,372 @@ program
       console.log('###EXECUTION_COMPLETE###');
       console.log('EXIT_CODE:1');
 
+      if (directLaunch) {
+        await browserManager.closeBrowser();
+        process.exit(1);
+      }
+
       // Keep process alive even on error
       console.log('🌐 Keeping process alive to preserve browser session...');
       keepAliveTimer = setInterval(() => {}, 60000);
     }
   });
 
+program
+  .command('report:trends')
+  .description('Show pass rate over time, slowest, slowing down and flaky tests from the run history')
+  .option('-s, --suite <id>', 'Only runs of this suite (id or name)')
+  .option('-n, --last <count>', 'Only the most recent runs')
+  .option('--top <count>', 'Entries per list', '10')
+  .option('--history <file>', 'Run history file', './reports/history.jsonl')
+  .option('--json <path>', 'Also save the analysis as JSON')
+  .action((options) => {
+    const history = new RunHistory(options.history);
+    const report = history.analyzeTrends({
+      suite: options.suite,
+      last: options.last ? parseInt(options.last) : undefined,
+      top: parseInt(options.top)
+    });
+
+    history.printTrends(report);
+
+    if (options.json) {
+      fs.mkdirSync(path.dirname(options.json), { recursive: true });
+      fs.writeFileSync(options.json, JSON.stringify(report, null, 2));
+      console.log(`📊 Trend report saved: ${options.json}`);
+    }
+  });
+
+program
+  .command('report:compare')
+  .description('Compare two JSON reports: new failures, fixes, changed step errors and duration changes')
+  .argument('<baseline>', 'Earlier JSON report (e.g. last night)')
+  .argument('<current>', 'Later JSON report (e.g. after the deployment)')
+  .option('--threshold <percent>', 'Minimum duration change to report', '50')
+  .option('--min-delta <ms>', 'Minimum absolute duration change to report', '1000')
+  .option('--json <path>', 'Also save the comparison as JSON')
+  .option('--fail-on-regression', 'Exit with code 1 when any test is newly failing')
+  .action((baseline, current, options) => {
+    const report = compareReportFiles(baseline, current, {
+      durationThreshold: parseFloat(options.threshold) / 100,
+      minDurationDelta: parseInt(options.minDelta)
+    });
+
+    printComparison(report);
+
+    if (options.json) {
+      fs.mkdirSync(path.dirname(options.json), { recursive: true });
+      fs.writeFileSync(options.json, JSON.stringify(report, null, 2));
+      console.log(`📊 Comparison saved: ${options.json}`);
+    }
+
+    if (options.failOnRegression && report.newlyFailing.length > 0) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command('heal:apply')
+  .description('List the locators healed in a run and write approved ones back')
+  .argument('<report>', 'JSON report of the run (from suite:execute or execute --report)')
+  .option('-s, --select <numbers>', 'Comma-separated suggestion numbers to apply (e.g. 1,3)')
+  .option('--all', 'Apply every suggestion')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .action((reportFile, options) => {
+    const report = JSON.parse(fs.readFileSync(reportFile, 'utf-8'));
+    const suggestions = collectHealingSuggestions(report.results || []);
+
+    if (suggestions.length === 0) {
+      console.log('\n🩹 No healed locators in this report\n');
+      return;
+    }
+
+    console.log(`\n🩹 Healed locators (${suggestions.length}):\n`);
+    suggestions.forEach(suggestion => {
+      console.log(`  #${suggestion.number} ${describeSuggestionTarget(suggestion) || '(manual update)'}`);
+      console.log(`     ${suggestion.originalLocator.type}=${suggestion.originalLocator.value}  ->  ${suggestion.healedLocator.type}=${suggestion.healedLocator.value}`);
+      console.log(`     Strategy: ${suggestion.strategy}, healed ${suggestion.occurrences}x in ${suggestion.tests.join(', ')}`);
+      (suggestion.candidates || []).forEach(candidate => {
+        const breakdown = Object.entries(candidate.breakdown).map(([component, score]) => `${component} ${score}`).join(', ');
+        console.log(`       ${Math.round(candidate.score * 100)}% ${candidate.locator.value} (${breakdown})`);
+      });
+    });
+
+    if (!options.all && !options.select) {
+      console.log('\n💡 Approve with --select <numbers> or --all\n');
+      return;
+    }
+
+    const entries: string[] = options.all ? [] : options.select.split(',').map((n: string) => n.trim());
+    const invalid = entries.filter(n => !/^\d+$/.test(n) || Number(n) < 1 || Number(n) > suggestions.length);
+    if (invalid.length > 0) {
+      console.error(`❌ Invalid suggestion number(s): ${invalid.map(n => n || '(empty)').join(', ')} (expected 1-${suggestions.length})`);
+      process.exit(1);
+    }
+    const selected = entries.map(Number);
+
+    const approved = options.all
+      ? suggestions
+      : suggestions.filter(suggestion => selected.includes(suggestion.number));
+
+    console.log('');
+    const applied = applyHealingSuggestions(approved, options.repository);
+    console.log(`\n✅ Applied ${applied}/${approved.length} suggestion(s)\n`);
+  });
+
+program
+  .command('heal:strategies')
+  .description('List the self-healing strategies in the order they run, plugins included')
+  .option('--config <file>', 'Project config with healing plugins', './qa.config.json')
+  .action((options) => {
+    const engine = new SelfHealingEngine();
+    loadHealingPlugins(engine, options.config);
+
+    for (const platform of [PlatformType.WEB, PlatformType.MOBILE]) {
+      console.log(`\n🔧 ${platform}:`);
+      engine.getStrategies(platform).forEach(strategy => {
+        console.log(`  ${String(strategy.priority).padStart(4)}  ${strategy.name}${strategy.platform === 'all' ? ' (all platforms)' : ''}`);
+      });
+    }
+    console.log('');
+  });
+
+// Object Repository Commands
+program
+  .command('repo:usages')
+  .description('Show which test steps use each repository object')
+  .argument('[object]', 'Object name or ID (default: all objects)')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .option('--tests <dirs...>', 'Directories with test case files', ['./recordings'])
+  .option('--suites <dir>', 'Test suites directory', './test-suites')
+  .action((reference, options) => {
+    const repository = openRepository(options.repository);
+    const index = buildUsageIndex(options);
+    const objects = reference ? [findRepositoryObject(repository, reference)] : repository.searchObjects({});
+
+    console.log(`\n🔎 Object usages (${index.getTestFiles().length} test file(s) scanned):\n`);
+    objects.forEach(object => {
+      const usages = index.getUsages(object.id);
+      console.log(`  📦 ${object.name} (${object.id}): ${usages.length > 0 ? `${usages.length} step(s)` : 'unused'}`);
+      printUsages(usages);
+    });
+
+    const missing = index.getReferencedObjectIds().filter(id => !repository.getObject(id));
+    if (!reference && missing.length > 0) {
+      console.log(`\n⚠️  Steps reference ${missing.length} object(s) missing from the repository:`);
+      missing.forEach(id => {
+        console.log(`  ❓ ${id}`);
+        printUsages(index.getUsages(id));
+      });
+    }
+    console.log('');
+  });
+
+program
+  .command('repo:rename')
+  .description('Rename a repository object and update the step descriptions that quote it')
+  .argument('<object>', 'Object name or ID')
+  .argument('<new-name>', 'New object name')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .option('--tests <dirs...>', 'Directories with test case files', ['./recordings'])
+  .option('--suites <dir>', 'Test suites directory', './test-suites')
+  .action((reference, newName, options) => {
+    const repository = openRepository(options.repository);
+    const object = findRepositoryObject(repository, reference);
+    const oldName = object.name;
+
+    repository.renameObject(object.id, newName);
+    const steps = buildUsageIndex(options).renameInSteps(object.id, oldName, newName);
+    console.log(`\n✅ Renamed "${oldName}" to "${newName}" (${steps} step description(s) updated)\n`);
+  });
+
+program
+  .command('repo:merge')
+  .description('Merge duplicate repository objects into one and re-point their steps')
+  .argument('<keep>', 'Object to keep (name or ID)')
+  .argument('<duplicates...>', 'Duplicate objects to merge into it (names or IDs)')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .option('--tests <dirs...>', 'Directories with test case files', ['./recordings'])
+  .option('--suites <dir>', 'Test suites directory', './test-suites')
+  .action((keepReference, duplicateReferences: string[], options) => {
+    const repository = openRepository(options.repository);
+    const kept = findRepositoryObject(repository, keepReference);
+    const duplicates = duplicateReferences.map(reference => findRepositoryObject(repository, reference))
+      .filter(object => object.id !== kept.id);
+
+    // Steps first, so an interrupted merge never leaves steps pointing at deleted objects
+    const steps = buildUsageIndex(options).repointSteps(duplicates.map(object => object.id), kept.id);
+    repository.mergeObjects(kept.id, duplicates.map(object => object.id));
+    console.log(`\n✅ Merged ${duplicates.length} object(s) into "${kept.name}" (${steps} step(s) re-pointed)\n`);
+  });
+
+program
+  .command('repo:delete')
+  .description('Delete a repository object (refuses while steps still use it)')
+  .argument('<object>', 'Object name or ID')
+  .option('--force', 'Delete even if steps use the object')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .option('--tests <dirs...>', 'Directories with test case files', ['./recordings'])
+  .option('--suites <dir>', 'Test suites directory', './test-suites')
+  .action((reference, options) => {
+    const repository = openRepository(options.repository);
+    const object = findRepositoryObject(repository, reference);
+    const index = buildUsageIndex(options);
+    const usages = index.getUsages(object.id);
+
+    if (usages.length > 0) {
+      console.log(`\n⚠️  "${object.name}" is used by ${usages.length} step(s):`);
+      printUsages(usages);
+      if (!options.force) {
+        console.log('\n💡 Merge it into another object with repo:merge, or delete anyway with --force\n');
+        process.exit(1);
+      }
+      console.log('   These steps fall back to their recorded locators.');
+    }
+
+    repository.deleteObject(object.id);
+  });
+
+program
+  .command('repo:tree')
+  .description('Show repository folders and objects as a tree, child objects under their parent')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .action((options) => {
+    openRepository(options.repository).printFolderTree();
+  });
+
+program
+  .command('repo:history')
+  .description('Show the change history of a repository object (or of the whole repository)')
+  .argument('[object]', 'Object name or ID - deleted objects too')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .action((reference, options) => {
+    const repository = openRepository(options.repository);
+    const all = repository.getHistory();
+    const objectId = reference
+      ? (repository.getObject(reference) || repository.getObjectByName(reference))?.id
+        || [...all].reverse().find(change => change.objectId === reference || change.objectName === reference)?.objectId
+      : undefined;
+    if (reference && !objectId) {
+      console.error(`❌ No object or history found for: ${reference}`);
+      process.exit(1);
+    }
+
+    const changes = objectId ? all.filter(change => change.objectId === objectId) : all;
+    if (changes.length === 0) {
+      console.error(`❌ No history recorded${reference ? ` for ${reference}` : ''}`);
+      process.exit(1);
+    }
+    const describe = (locators?: ElementLocator[]) => (locators || []).map(locator => `${locator.type}=${locator.value}`).join(', ') || '-';
+
+    console.log(`\n🕘 History${reference ? ` of ${reference}` : ''} (${changes.length} change(s)):\n`);
+    changes.forEach(change => {
+      const name = objectId ? '' : ` ${change.objectName}`;
+      console.log(`  v${change.version}${name}  ${new Date(change.timestamp).toLocaleString()}  ${change.action} by ${change.source} (${change.user})${change.note ? ` - ${change.note}` : ''}`);
+      if (change.before && change.after && change.before.name !== change.after.name) {
+        console.log(`       name: ${change.before.name} -> ${change.after.name}`);
+      }
+      if (JSON.stringify(change.oldLocators) !== JSON.stringify(change.newLocators)) {
+        console.log(`       locators: ${describe(change.oldLocators)}`);
+        console.log(`              -> ${describe(change.newLocators)}`);
+      }
+    });
+    console.log(objectId ? `\n💡 Restore a version with: repo:rollback ${objectId} <version>\n` : '');
+  });
+
+program
+  .command('repo:rollback')
+  .description('Restore a repository object as it was after an earlier history version')
+  .argument('<object>', 'Object name or ID (ID for deleted objects)')
+  .argument('<version>', 'Version from repo:history')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .action((reference, version, options) => {
+    const repository = openRepository(options.repository);
+    const objectId = repository.getObjectByName(reference)?.id || reference;
+    repository.rollbackObject(objectId, parseInt(version));
+  });
+
+program
+  .command('repo:import')
+  .description('Three-way merge another copy of the object repository into this one')
+  .argument('<file>', 'Repository file to import (theirs)')
+  .option('--base <file>', 'Common ancestor of both copies (e.g. from git merge-base)')
+  .option('--policy <side>', 'Resolve every conflict with ours or theirs')
+  .option('-i, --interactive', 'Resolve conflicts one by one in the repository editor')
+  .option('--replace', 'Replace the repository with the file instead of merging')
+  .option('--report <path>', 'Conflict report', './reports/repository-merge.json')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .action(async (file, options) => {
+    try {
+      if (options.policy && !['ours', 'theirs'].includes(options.policy)) {
+        throw new Error(`Invalid merge policy: ${options.policy} (expected ours or theirs)`);
+      }
+
+      if (options.replace) {
+        openRepository(options.repository).importRepository(file);
+        return;
+      }
+      if (options.interactive) {
+        await new ObjectRepositoryEditor(options.repository).importWithMerge(file, options.base);
+        return;
+      }
+
+      const repository = openRepository(options.repository);
+      const result = repository.planImport(file, options.base);
+      if (options.policy) {
+        resolveAllConflicts(result, options.policy as MergePolicy);
+      }
+      printMergeReport(result);
+      saveMergeReport(result, options.report);
+
+      const conflicts = unresolvedConflicts(result);
+      if (conflicts.length > 0) {
+        console.log(`❌ ${conflicts.length} unresolved conflict(s) - nothing was changed`);
+        console.log('💡 Resolve them with --interactive, or with --policy ours / --policy theirs\n');
+        process.exit(1);
+      }
+      repository.applyMerge(result, file);
+    } catch (error: any) {
+      console.error('❌ Import failed:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('repo:validate')
+  .description('Check every web object locator against a live page (unique, ambiguous or broken)')
+  .option('-u, --url <url>', 'Page to open (default: the current page of the open browser)')
+  .option('--repository <file>', 'Object repository file', './object-repository.json')
+  .option('--tags <tags>', 'Only objects with one of these comma-separated tags')
+  .option('-r, --report <path>', 'JSON report', './reports/locator-validation.json')
+  .option('--all', 'Also list objects whose primary locator is fine')
+  .option('--headless', 'Launch the browser headless instead of using the browser server')
+  .option('--browser <browser>', 'Launch this browser directly (chromium, firefox, webkit)')
+  .action(async (options) => {
+    let exitCode = 0;
+    try {
+      configureBrowserLaunch(options);
+      const repository = openRepository(options.repository);
+      const page = await browserManager.getPage();
+      if (options.url) {
+        await page.goto(options.url, { waitUntil: 'load' });
+      }
+
+      const report = await new LocatorValidator(repository).validateWeb(page, {
+        tags: options.tags ? options.tags.split(',').map((tag: string) => tag.trim()) : undefined
+      });
+      printValidationReport(report, options.all);
+      saveValidationReport(report, options.report);
+      exitCode = report.summary.ambiguous + report.summary.broken > 0 ? 1 : 0;
+    } catch (error: any) {
+      console.error('❌ Validation failed:', error.message);
+      exitCode = 1;
+    }
+
+    await browserManager.closeBrowser();
+    process.exit(exitCode);
+  });
+
 program
   .command('suite:add')
   .description('Add test cases to a suite')
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
-import { TestAction, TestCase, ActionType, PlatformType, MobileRecorderConfig, ElementLocator } from '../../types';
+import { TestAction, TestCase, ActionType, PlatformType, MobileRecorderConfig, ElementLocator, ElementFingerprint } from '../../types';
+import { parsePageSource, visibleNodes, nodeBounds, nodeFingerprint } from '../../healing/pageSource';
 import * as fs from 'fs';
 import * as path from 'path';
 import { remote } from 'webdriverio';
@@ -11,6 +12,7 @@ export class MobileRecorder {
   private config: MobileRecorderConfig;
   private recording: boolean = false;
   private testCaseId: string;
+  private capabilities: Record<string, any> = {};
 
   constructor(config: MobileRecorderConfig) {
     this.config = {
@@ -50,6 +52,7 @@ export class MobileRecorder {
         path: '/',
         capabilities
       });
+      this.capabilities = capabilities;
 
       this.recording = true;
 
@@ -92,6 +95,7 @@ export class MobileRecorder {
 
     const element = await this.findElement(selector, locatorType);
     if (element) {
+      const fingerprint = await this.captureFingerprint(element);
       await element.click();
 
       await this.addAction({
@@ -100,7 +104,8 @@ export class MobileRecorder {
           type: locatorType,
           value: selector
         },
-        description: `Tap on element: ${selector}`
+        description: `Tap on element: ${selector}`,
+        fingerprint
       });
     }
   }
@@ -110,6 +115,7 @@ export class MobileRecorder {
 
     const element = await this.findElement(selector, locatorType);
     if (element) {
+      const fingerprint = await this.captureFingerprint(element);
       await element.setValue(text);
 
       await this.addAction({
@@ -119,7 +125,8 @@ export class MobileRecorder {
           value: selector
         },
         value: text,
-        description: `Type "${text}" into ${selector}`
+        description: `Type "${text}" into ${selector}`,
+        fingerprint
       });
     }
   }
@@ -218,6 +225,33 @@ export class MobileRecorder {
     }
   }
 
+  /**
+   * Fingerprint of an element from the page source, for similarity healing.
+   * Taken before the action, while the element is still on screen.
+   */
+  private async captureFingerprint(element: any): Promise<ElementFingerprint | undefined> {
+    if (!this.driver) return undefined;
+
+    try {
+      const [location, size, source] = await Promise.all([
+        element.getLocation(),
+        element.getSize(),
+        this.driver.getPageSource()
+      ]);
+
+      // The deepest node with the element's bounds (descendants follow their ancestors)
+      const node = visibleNodes(parsePageSource(source)).reverse().find(candidate => {
+        const bounds = nodeBounds(candidate);
+        return bounds && bounds.x === Math.round(location.x) && bounds.y === Math.round(location.y) &&
+          bounds.width === Math.round(size.width) && bounds.height === Math.round(size.height);
+      });
+      return node ? nodeFingerprint(node) : undefined;
+    } catch (error) {
+      console.warn('Failed to capture element fingerprint:', error);
+      return undefined;
+    }
+  }
+
   private async addAction(actionData: Partial<TestAction>): Promise<void> {
     if (!this.recording) return;
 
@@ -229,6 +263,7 @@ export class MobileRecorder {
       target: actionData.target,
       value: actionData.value,
       description: actionData.description,
+      fingerprint: actionData.fingerprint,
       metadata: {
         deviceType: this.config.deviceType
       }
@@ -270,7 +305,8 @@ export class MobileRecorder {
       actions: this.actions,
       createdAt: Date.now(),
       updatedAt: Date.now(),
-      tags: [this.config.deviceType]
+      tags: [this.config.deviceType],
+      capabilities: this.capabilities
     };
 
     // Save test case to file
@@ -1,32 +1,20 @@
 import { chromium, Browser, Page, BrowserContext } from 'playwright';
 import { v4 as uuidv4 } from 'uuid';
-import { TestAction, TestCase, ActionType, PlatformType, WebRecorderConfig, ElementLocator } from '../../types';
+import { TestAction, TestCase, ActionType, PlatformType, WebRecorderConfig, ElementLocator, StoreVariableSpec } from '../../types';
 import { browserManager } from '../../browser/browserManager';
+import { FINGERPRINT_SCRIPT } from '../../healing/fingerprint';
+import { ObjectRepositoryManager, UIObject } from '../../repository/objectRepository';
 import * as fs from 'fs';
 import * as path from 'path';
 
-interface ObjectRepositoryItem {
-  id: string;
-  name: string;
-  tagName: string;
-  attributes: { [key: string]: string };
-  selectors: {
-    id?: string;
-    name?: string;
-    class?: string;
-    xpath?: string;
-    css?: string;
-  };
-  capturedAt: number;
-}
-
 export class WebRecorder {
   private page: Page | null = null;
   private actions: TestAction[] = [];
   private config: WebRecorderConfig;
   private recording: boolean = false;
   private testCaseId: string;
-  private objectRepository: Map<string, ObjectRepositoryItem> = new Map();
+  private objectRepository?: ObjectRepositoryManager;
+  private recordedObjects: Set<string> = new Set();   // Objects used by this recording
   private lastNavigationTime: number = 0;
   private navigationDebounceMs: number = 500;
 
@@ -293,7 +281,8 @@ export class WebRecorder {
         type: ActionType.CLICK,
         target: await this.createLocator(objectData.selector, objectData.xpath),
         description: `Click on ${objectData.tagName} "${objectData.text || objectData.selector}"`,
-        objectId: objectId
+        objectId: objectId,
+        fingerprint: objectData.fingerprint
       });
     });
 
@@ -308,7 +297,8 @@ export class WebRecorder {
         target: await this.createLocator(objectData.selector, objectData.xpath),
         value: value,
         description: `Type "${value}" into ${objectData.name || objectData.selector}"`,
-        objectId: objectId
+        objectId: objectId,
+        fingerprint: objectData.fingerprint
       });
     });
 
@@ -323,7 +313,8 @@ export class WebRecorder {
         target: await this.createLocator(objectData.selector, objectData.xpath),
         value: key,
         description: `Press ${key} key on ${objectData.placeholder || objectData.name || objectData.selector}`,
-        objectId: objectId
+        objectId: objectId,
+        fingerprint: objectData.fingerprint
       });
     });
 
@@ -398,7 +389,8 @@ export class WebRecorder {
             type: ActionType.CLICK,
             target: await this.createLocator(objectData.selector, objectData.xpath),
             description: `Click on ${objectData.tagName} "${objectData.text || objectData.selector}"`,
-            objectId: objectId
+            objectId: objectId,
+            fingerprint: objectData.fingerprint
           });
         });
 
@@ -412,7 +404,8 @@ export class WebRecorder {
             target: await this.createLocator(objectData.selector, objectData.xpath),
             value: value,
             description: `Type "${value}" into ${objectData.name || objectData.selector}"`,
-            objectId: objectId
+            objectId: objectId,
+            fingerprint: objectData.fingerprint
           });
         });
 
@@ -426,7 +419,8 @@ export class WebRecorder {
             target: await this.createLocator(objectData.selector, objectData.xpath),
             value: key,
             description: `Press ${key} key on ${objectData.placeholder || objectData.name || objectData.selector}`,
-            objectId: objectId
+            objectId: objectId,
+            fingerprint: objectData.fingerprint
           });
         });
 
@@ -476,6 +470,9 @@ export class WebRecorder {
         console.log('🎯 Injecting event listeners for recording...');
         console.log('🔍 Checking exposed functions:', typeof window.recordClick, typeof window.recordInput);
 
+        // Fingerprint of each recorded element, used for similarity healing
+        ${FINGERPRINT_SCRIPT}
+
           // Helper function to generate full/absolute XPath with modal detection
           window.getFullXPath = function(element) {
             if (element.id) {
@@ -615,7 +612,8 @@ export class WebRecorder {
               type: element.getAttribute('type') || null,
               selector: selector,
               attributes: attributes,
-              xpath: xpath // Generated XPath for better element matching
+              xpath: xpath, // Generated XPath for better element matching
+              fingerprint: window.captureFingerprint(element)
             };
           };
 
@@ -694,41 +692,70 @@ export class WebRecorder {
     }
   }
 
+  /**
+   * Shared object repository, opened on the first recorded element
+   */
+  private getRepository(): ObjectRepositoryManager {
+    if (!this.objectRepository) {
+      this.objectRepository = new ObjectRepositoryManager(this.config.repositoryPath);
+      this.objectRepository.setChangeSource('recorder');
+    }
+    return this.objectRepository;
+  }
+
+  /**
+   * Reuse the repository object for the element or create a new one.
+   * Returns the object ID for the recorded step.
+   */
   private storeObject(objectData: any): string {
-    // Generate unique identifier based on element attributes
+    const repository = this.getRepository();
     const uniqueKey = this.generateUniqueKey(objectData);
 
-    // Check if object already exists
-    for (const [existingId, existingObj] of this.objectRepository.entries()) {
-      const existingKey = this.generateUniqueKeyFromObj(existingObj);
-      if (existingKey === uniqueKey) {
-        console.log(`📦 Object already exists: ${existingObj.name} (${existingId})`);
-        return existingId;
+    const existing = repository.searchObjects({ platform: PlatformType.WEB })
+      .find(obj => this.generateUniqueKeyFromObj(obj) === uniqueKey);
+    if (existing) {
+      if (!existing.fingerprint && objectData.fingerprint) {
+        repository.updateObject(existing.id, { fingerprint: objectData.fingerprint });
       }
+      this.recordedObjects.add(existing.id);
+      console.log(`📦 Object already exists: ${existing.name} (${existing.id})`);
+      return existing.id;
     }
 
-    // Create new object
-    const objectId = `obj_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-
-    const obj: ObjectRepositoryItem = {
-      id: objectId,
-      name: objectData.name || objectData.text || objectData.selector,
-      tagName: objectData.tagName,
-      attributes: objectData.attributes || {},
-      selectors: {
-        id: objectData.id,
-        name: objectData.name,
-        class: objectData.className,
-        xpath: objectData.xpath || this.generateXPath(objectData),
-        css: objectData.selector
+    const xpath = objectData.xpath || this.generateXPath(objectData);
+    const obj = repository.addObject({
+      name: this.uniqueObjectName(objectData.name || objectData.text || objectData.selector),
+      description: `${objectData.tagName} recorded on ${this.page?.url() || 'web page'}`,
+      platform: PlatformType.WEB,
+      locators: [
+        { type: 'xpath', value: xpath },
+        ...(objectData.selector ? [{ type: 'css' as const, value: objectData.selector }] : [])
+      ],
+      attributes: {
+        tagName: objectData.tagName,
+        id: objectData.id || undefined,
+        name: objectData.name || undefined,
+        text: objectData.text || undefined,
+        type: objectData.attributes?.type,
+        placeholder: objectData.attributes?.placeholder,
+        className: objectData.className || undefined
       },
-      capturedAt: Date.now()
-    };
+      fingerprint: objectData.fingerprint
+    });
+
+    this.recordedObjects.add(obj.id);
+    console.log(`📦 New object stored: ${obj.name} (${obj.id})`);
 
-    this.objectRepository.set(objectId, obj);
-    console.log(`📦 New object stored: ${obj.name} (${objectId})`);
+    return obj.id;
+  }
 
-    return objectId;
+  private uniqueObjectName(name: string): string {
+    const repository = this.getRepository();
+    let unique = name;
+    for (let i = 2; repository.getObjectByName(unique); i++) {
+      unique = `${name} (${i})`;
+    }
+    return unique;
   }
 
   private generateUniqueKey(objectData: any): string {
@@ -740,16 +767,27 @@ export class WebRecorder {
     if (objectData.attributes?.placeholder) parts.push(`placeholder:${objectData.attributes.placeholder}`);
     if (objectData.attributes?.type) parts.push(`type:${objectData.attributes.type}`);
 
+    // Without a stable attribute only the same element (same XPath and text) is reused
+    if (!objectData.id && !objectData.name && !objectData.attributes?.placeholder) {
+      parts.push(`xpath:${objectData.xpath || this.generateXPath(objectData)}`, `text:${objectData.text || ''}`);
+    }
+
     return parts.join('|');
   }
 
-  private generateUniqueKeyFromObj(obj: ObjectRepositoryItem): string {
-    const parts: string[] = [obj.tagName];
+  private generateUniqueKeyFromObj(obj: UIObject): string {
+    const attributes = obj.attributes || {};
+    const parts: string[] = [attributes.tagName];
+
+    if (attributes.id) parts.push(`id:${attributes.id}`);
+    if (attributes.name) parts.push(`name:${attributes.name}`);
+    if (attributes.placeholder) parts.push(`placeholder:${attributes.placeholder}`);
+    if (attributes.type) parts.push(`type:${attributes.type}`);
 
-    if (obj.selectors.id) parts.push(`id:${obj.selectors.id}`);
-    if (obj.selectors.name) parts.push(`name:${obj.selectors.name}`);
-    if (obj.attributes.placeholder) parts.push(`placeholder:${obj.attributes.placeholder}`);
-    if (obj.attributes.type) parts.push(`type:${obj.attributes.type}`);
+    if (!attributes.id && !attributes.name && !attributes.placeholder) {
+      const xpath = obj.locators.find(locator => locator.type === 'xpath');
+      parts.push(`xpath:${xpath?.value || ''}`, `text:${attributes.text || ''}`);
+    }
 
     return parts.join('|');
   }
@@ -801,6 +839,8 @@ export class WebRecorder {
       target: actionData.target,
       value: actionData.value,
       description: actionData.description,
+      objectId: actionData.objectId,
+      fingerprint: actionData.fingerprint,
       metadata: {}
     };
 
@@ -890,26 +930,18 @@ export class WebRecorder {
     // Save test case to file
     fs.writeFileSync(testCasePath, JSON.stringify(testCase, null, 2));
 
-    // Save object repository
-    const objectsDir = path.join(path.dirname(this.config.outputPath), 'objects');
-    if (!fs.existsSync(objectsDir)) {
-      fs.mkdirSync(objectsDir, { recursive: true });
-    }
-
-    const objectRepoPath = path.join(objectsDir, 'object-repository.json');
-    const objectsArray = Array.from(this.objectRepository.values());
-    fs.writeFileSync(objectRepoPath, JSON.stringify(objectsArray, null, 2));
-
     console.log(`✅ Test case saved: ${testCasePath}`);
     console.log(`📊 Total actions recorded: ${this.actions.length}`);
-    console.log(`📦 Objects captured: ${objectsArray.length}`);
-    console.log(`💾 Object repository saved: ${objectRepoPath}`);
+    if (this.objectRepository) {
+      // Objects are saved to the shared repository as they are recorded
+      console.log(`📦 Objects used: ${this.recordedObjects.size} (repository: ${this.objectRepository.getStatistics().totalObjects} objects)`);
+    }
     console.log('🌐 Browser kept open for next recording');
 
     // Reset for next recording (but keep browser, context, and page open)
     this.actions = [];
     this.testCaseId = `test-${Date.now()}`;
-    this.objectRepository.clear();
+    this.recordedObjects.clear();
 
     return testCase;
   }
@@ -938,6 +970,20 @@ export class WebRecorder {
     });
   }
 
+  async addStoreVariable(spec: StoreVariableSpec, selector?: string): Promise<void> {
+    let target: ElementLocator | undefined;
+    if (selector) {
+      target = selector.startsWith('/') ? { type: 'xpath', value: selector } : await this.createLocator(selector);
+    }
+
+    await this.addAction({
+      type: ActionType.STORE_VARIABLE,
+      target,
+      value: spec,
+      description: `Store ${spec.source}${spec.attribute ? ` "${spec.attribute}"` : ''}${selector ? ` of ${selector}` : ''} in \${${spec.variable}}`
+    });
+  }
+
   async addWait(milliseconds: number): Promise<void> {
     await this.addAction({
       type: ActionType.WAIT,
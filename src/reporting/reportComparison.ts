@@ -0,0 +1,164 @@
+import { ExecutionResult, StepResult } from '../types';
+import { TestReport } from './reporter';
+import * as fs from 'fs';
+
+export interface StepErrorChange {
+  test: string;
+  step: string;            // Step label, e.g. "3" or "3.2" for nested steps
+  action?: string;
+  before?: string;         // undefined when the step did not fail in the baseline
+  after?: string;          // undefined when the step no longer fails
+}
+
+export interface DurationChange {
+  test: string;
+  before: number;
+  after: number;
+  change: number;          // Relative change (0.5 = 50% slower, -0.5 = 50% faster)
+}
+
+export interface ComparisonReport {
+  baseline: { path: string; timestamp: number; passRate: number };
+  current: { path: string; timestamp: number; passRate: number };
+  newlyFailing: Array<{ test: string; error?: string }>;
+  newlyPassing: string[];
+  stepErrorChanges: StepErrorChange[];
+  durationChanges: DurationChange[];
+  added: string[];         // Only in the current report
+  removed: string[];       // Only in the baseline report
+}
+
+export interface ComparisonOptions {
+  durationThreshold?: number; // Minimum relative duration change to report (default 0.5)
+  minDurationDelta?: number;  // ...and minimum absolute change in ms (default 1000)
+}
+
+/**
+ * Compare two JSON reports saved by Reporter.saveJsonReport
+ */
+export function compareReportFiles(baselinePath: string, currentPath: string, options: ComparisonOptions = {}): ComparisonReport {
+  const baseline: TestReport = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+  const current: TestReport = JSON.parse(fs.readFileSync(currentPath, 'utf-8'));
+
+  return {
+    ...compareReports(baseline, current, options),
+    baseline: { path: baselinePath, timestamp: baseline.summary.timestamp, passRate: baseline.summary.passRate },
+    current: { path: currentPath, timestamp: current.summary.timestamp, passRate: current.summary.passRate }
+  };
+}
+
+export function compareReports(
+  baseline: TestReport,
+  current: TestReport,
+  options: ComparisonOptions = {}
+): Omit<ComparisonReport, 'baseline' | 'current'> {
+  const durationThreshold = options.durationThreshold ?? 0.5;
+  const minDurationDelta = options.minDurationDelta ?? 1000;
+
+  const before = indexResults(baseline.results);
+  const after = indexResults(current.results);
+
+  const comparison: Omit<ComparisonReport, 'baseline' | 'current'> = {
+    newlyFailing: [],
+    newlyPassing: [],
+    stepErrorChanges: [],
+    durationChanges: [],
+    added: [...after.keys()].filter(test => !before.has(test)),
+    removed: [...before.keys()].filter(test => !after.has(test))
+  };
+
+  for (const [test, result] of after) {
+    const previous = before.get(test);
+    if (!previous) {
+      continue;
+    }
+
+    if (previous.status !== 'failed' && result.status === 'failed') {
+      comparison.newlyFailing.push({ test, error: result.error });
+    } else if (previous.status === 'failed' && result.status === 'passed') {
+      comparison.newlyPassing.push(test);
+    }
+
+    const previousErrors = stepErrors(previous.steps);
+    const currentErrors = stepErrors(result.steps);
+    for (const step of new Set([...previousErrors.keys(), ...currentErrors.keys()])) {
+      const was = previousErrors.get(step);
+      const now = currentErrors.get(step);
+      if (was?.error !== now?.error) {
+        comparison.stepErrorChanges.push({ test, step, action: (now || was)!.action, before: was?.error, after: now?.error });
+      }
+    }
+
+    const delta = result.duration - previous.duration;
+    const change = previous.duration > 0 ? delta / previous.duration : 0;
+    if (Math.abs(delta) >= minDurationDelta && Math.abs(change) >= durationThreshold) {
+      comparison.durationChanges.push({ test, before: previous.duration, after: result.duration, change });
+    }
+  }
+
+  comparison.durationChanges.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+  return comparison;
+}
+
+export function printComparison(report: ComparisonReport): void {
+  console.log('\n' + '='.repeat(60));
+  console.log('🔀 RUN COMPARISON');
+  console.log('='.repeat(60));
+  console.log(`Baseline: ${report.baseline.path} (${new Date(report.baseline.timestamp).toLocaleString()}, ${report.baseline.passRate.toFixed(1)}%)`);
+  console.log(`Current:  ${report.current.path} (${new Date(report.current.timestamp).toLocaleString()}, ${report.current.passRate.toFixed(1)}%)`);
+
+  console.log(`\n❌ Newly failing (${report.newlyFailing.length}):`);
+  report.newlyFailing.forEach(({ test, error }) => console.log(`  ${test}${error ? `\n     ${error}` : ''}`));
+
+  console.log(`\n✅ Newly passing (${report.newlyPassing.length}):`);
+  report.newlyPassing.forEach(test => console.log(`  ${test}`));
+
+  console.log(`\n⚠️  Changed step errors (${report.stepErrorChanges.length}):`);
+  report.stepErrorChanges.forEach(change => {
+    console.log(`  ${change.test} - step ${change.step}${change.action ? ` (${change.action})` : ''}`);
+    console.log(`     before: ${change.before || '(passed)'}`);
+    console.log(`     after:  ${change.after || '(passed)'}`);
+  });
+
+  console.log(`\n⏱️  Duration changes (${report.durationChanges.length}):`);
+  report.durationChanges.forEach(change => {
+    const sign = change.change > 0 ? '+' : '';
+    console.log(`  ${sign}${(change.change * 100).toFixed(0)}%  ${change.test} (${change.before}ms -> ${change.after}ms)`);
+  });
+
+  if (report.added.length > 0) {
+    console.log(`\n➕ Only in current: ${report.added.join(', ')}`);
+  }
+  if (report.removed.length > 0) {
+    console.log(`\n➖ Only in baseline: ${report.removed.join(', ')}`);
+  }
+
+  console.log('='.repeat(60) + '\n');
+}
+
+/**
+ * Results keyed by test name (plus browser in matrix runs).
+ * Looped runs of the same test keep the last result.
+ */
+function indexResults(results: ExecutionResult[]): Map<string, ExecutionResult> {
+  const index = new Map<string, ExecutionResult>();
+  for (const result of results) {
+    const name = result.name || result.testCaseId;
+    index.set(result.browser ? `${name} [${result.browser}]` : name, result);
+  }
+  return index;
+}
+
+/**
+ * Errors of failed steps keyed by step label, nested steps included
+ */
+function stepErrors(steps: StepResult[], labelPrefix: string = '', errors = new Map<string, { action?: string; error?: string }>()) {
+  steps.forEach((step, index) => {
+    const label = `${labelPrefix}${index + 1}`;
+    if (step.status === 'failed') {
+      errors.set(label, { action: step.action, error: step.error || 'failed' });
+    }
+    stepErrors(step.children || [], `${label}.`, errors);
+  });
+  return errors;
+}
@@ -1,7 +1,21 @@
-import { ExecutionResult, TestCase } from '../types';
+import { ExecutionResult, StepResult, TestCase, FingerprintMatch } from '../types';
+import { collectHealingSuggestions, describeSuggestionTarget } from '../healing/healingUpdates';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * Pass/fail totals for one browser of a cross-browser matrix run
+ */
+export interface BrowserSummary {
+  browser: string;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  totalDuration: number;
+  passRate: number;
+}
+
 export interface TestReport {
   summary: {
     totalTests: number;
@@ -13,6 +27,7 @@ export interface TestReport {
     timestamp: number;
   };
   results: ExecutionResult[];
+  browsers?: BrowserSummary[];   // Per-browser totals (matrix runs only); results are grouped in this order
   metadata?: {
     environment?: string;
     browser?: string;
@@ -43,6 +58,8 @@ export class Reporter {
     const skipped = this.results.filter(r => r.status === 'skipped').length;
     const totalDuration = this.results.reduce((sum, r) => sum + r.duration, 0);
 
+    const browsers = this.summarizeBrowsers();
+
     return {
       summary: {
         totalTests: this.results.length,
@@ -53,11 +70,39 @@ export class Reporter {
         passRate: this.results.length > 0 ? (passed / this.results.length) * 100 : 0,
         timestamp: Date.now()
       },
-      results: this.results,
+      results: browsers
+        ? browsers.flatMap(summary => this.results.filter(r => r.browser === summary.browser))
+        : this.results,
+      browsers,
       metadata: this.metadata
     };
   }
 
+  /**
+   * Per-browser totals, in the order browsers first appear (undefined when no result has a browser)
+   */
+  private summarizeBrowsers(): BrowserSummary[] | undefined {
+    if (!this.results.some(r => r.browser)) {
+      return undefined;
+    }
+
+    const names = [...new Set(this.results.map(r => r.browser || 'unknown'))];
+    return names.map(browser => {
+      const results = this.results.filter(r => (r.browser || 'unknown') === browser);
+      const passed = results.filter(r => r.status === 'passed').length;
+
+      return {
+        browser,
+        totalTests: results.length,
+        passed,
+        failed: results.filter(r => r.status === 'failed').length,
+        skipped: results.filter(r => r.status === 'skipped').length,
+        totalDuration: results.reduce((sum, r) => sum + r.duration, 0),
+        passRate: results.length > 0 ? (passed / results.length) * 100 : 0
+      };
+    });
+  }
+
   saveJsonReport(outputPath: string): void {
     const report = this.generateReport();
     const dir = path.dirname(outputPath);
@@ -72,8 +117,8 @@ export class Reporter {
 
   saveHtmlReport(outputPath: string): void {
     const report = this.generateReport();
-    const html = this.generateHtml(report);
     const dir = path.dirname(outputPath);
+    const html = this.generateHtml(report, dir);
 
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
@@ -83,7 +128,85 @@ export class Reporter {
     console.log(`📊 HTML Report saved: ${outputPath}`);
   }
 
-  private generateHtml(report: TestReport): string {
+  /**
+   * JUnit XML for CI systems: one <testsuite> per suite (per browser in matrix
+   * runs), one <testcase> per result, failed steps listed in <failure>
+   */
+  saveJUnitReport(outputPath: string, suiteName?: string): void {
+    const report = this.generateReport();
+    const dir = path.dirname(outputPath);
+    const name = suiteName || this.metadata.suite_name || 'QA Automation';
+
+    const groups = report.browsers
+      ? report.browsers.map(summary => ({
+          name: `${name} [${summary.browser}]`,
+          results: report.results.filter(r => (r.browser || 'unknown') === summary.browser)
+        }))
+      : [{ name, results: report.results }];
+
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${escapeXml(name)}" tests="${report.summary.totalTests}" failures="${report.summary.failed}" skipped="${report.summary.skipped}" time="${seconds(report.summary.totalDuration)}">`,
+      ...groups.map(group => this.renderJUnitSuite(group.name, group.results)),
+      '</testsuites>'
+    ].join('\n');
+
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    fs.writeFileSync(outputPath, xml);
+    console.log(`📊 JUnit Report saved: ${outputPath}`);
+  }
+
+  private renderJUnitSuite(name: string, results: ExecutionResult[]): string {
+    const failures = results.filter(r => r.status === 'failed').length;
+    const skipped = results.filter(r => r.status === 'skipped').length;
+    const duration = results.reduce((sum, r) => sum + r.duration, 0);
+    const timestamp = new Date(results.length > 0 ? Math.min(...results.map(r => r.startTime)) : Date.now()).toISOString();
+
+    const testcases = results.map(result => {
+      const attributes = `name="${escapeXml(result.name || result.testCaseId)}" classname="${escapeXml(name)}" time="${seconds(result.duration)}"`;
+      const body: string[] = [];
+
+      if (result.status === 'failed') {
+        const failedSteps = this.describeFailedSteps(result.steps);
+        body.push(`      <failure message="${escapeXml(result.error || 'Test failed')}" type="StepFailure">${escapeXml(failedSteps.join('\n'))}</failure>`);
+      } else if (result.status === 'skipped') {
+        body.push('      <skipped/>');
+      }
+
+      if (result.logs?.length) {
+        const logs = result.logs.map(log => `[${log.level.toUpperCase()}] ${log.message}`).join('\n');
+        body.push(`      <system-out>${escapeXml(logs)}</system-out>`);
+      }
+
+      return body.length > 0
+        ? `    <testcase ${attributes}>\n${body.join('\n')}\n    </testcase>`
+        : `    <testcase ${attributes}/>`;
+    });
+
+    return [
+      `  <testsuite name="${escapeXml(name)}" tests="${results.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(duration)}" timestamp="${timestamp}">`,
+      ...testcases,
+      '  </testsuite>'
+    ].join('\n');
+  }
+
+  /**
+   * One line per failed step (nested steps included), with its screenshot if any
+   */
+  private describeFailedSteps(steps: StepResult[], labelPrefix: string = ''): string[] {
+    return steps.flatMap((step, index) => {
+      const label = `${labelPrefix}${index + 1}`;
+      const lines = step.status === 'failed'
+        ? [`Step ${label} (${step.action || 'step'} ${step.object || ''}): ${step.error || 'failed'}${step.screenshot ? ` [screenshot: ${step.screenshot}]` : ''}`]
+        : [];
+      return [...lines, ...this.describeFailedSteps(step.children || [], `${label}.`)];
+    });
+  }
+
+  private generateHtml(report: TestReport, reportDir: string): string {
     const date = new Date(report.summary.timestamp).toLocaleString();
 
     return `
@@ -215,6 +338,30 @@ export class Reporter {
       color: #c53030;
       font-size: 14px;
     }
+    .artifacts {
+      margin-top: 8px;
+      font-size: 14px;
+    }
+    .artifacts a {
+      margin-right: 12px;
+      color: #667eea;
+    }
+    .step-list {
+      list-style: none;
+      margin: 6px 0 0 16px;
+      font-size: 13px;
+      color: #4a5568;
+    }
+    .step-list .failed {
+      color: #c53030;
+    }
+    .step-screenshot {
+      display: block;
+      max-width: 480px;
+      margin: 6px 0;
+      border: 1px solid #e2e8f0;
+      border-radius: 4px;
+    }
   </style>
 </head>
 <body>
@@ -247,11 +394,69 @@ export class Reporter {
       </div>
     </div>
 
-    <h2>Test Results</h2>
+    ${report.browsers ? `
+      <h2>Browsers</h2>
+      <table class="results-table">
+        <thead>
+          <tr>
+            <th>Browser</th>
+            <th>Tests</th>
+            <th>Passed</th>
+            <th>Failed</th>
+            <th>Pass Rate</th>
+            <th>Duration</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${report.browsers.map(summary => `
+            <tr>
+              <td><strong>${escapeHtml(summary.browser)}</strong></td>
+              <td>${summary.totalTests}</td>
+              <td>${summary.passed}</td>
+              <td>${summary.failed}</td>
+              <td>${summary.passRate.toFixed(1)}%</td>
+              <td>${(summary.totalDuration / 1000).toFixed(2)}s</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+
+      ${report.browsers.map(summary => `
+        <h2 style="margin-top: 40px;">Test Results - ${escapeHtml(summary.browser)}</h2>
+        ${this.renderResultsTable(report.results.filter(r => (r.browser || 'unknown') === summary.browser), reportDir)}
+      `).join('')}
+    ` : `
+      <h2>Test Results</h2>
+      ${this.renderResultsTable(report.results, reportDir)}
+    `}
+
+    ${this.renderHealing(report)}
+
+    ${report.metadata && Object.keys(report.metadata).length > 0 ? `
+      <h2 style="margin-top: 40px;">Environment</h2>
+      <table class="results-table">
+        <tbody>
+          ${Object.entries(report.metadata).map(([key, value]) => `
+            <tr>
+              <td><strong>${escapeHtml(key)}</strong></td>
+              <td>${escapeHtml(value)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    ` : ''}
+  </div>
+</body>
+</html>
+    `.trim();
+  }
+
+  private renderResultsTable(results: ExecutionResult[], reportDir: string): string {
+    return `
     <table class="results-table">
       <thead>
         <tr>
-          <th>Test ID</th>
+          <th>Test</th>
           <th>Status</th>
           <th>Duration</th>
           <th>Steps</th>
@@ -259,39 +464,124 @@ export class Reporter {
         </tr>
       </thead>
       <tbody>
-        ${report.results.map(result => `
+        ${results.map(result => `
           <tr>
-            <td>${result.testCaseId.substring(0, 8)}...</td>
+            <td>${escapeHtml(result.name || result.testCaseId.substring(0, 8) + '...')}</td>
             <td><span class="status-badge ${result.status}">${result.status.toUpperCase()}</span></td>
             <td>${result.duration}ms</td>
             <td>${result.steps.length}</td>
             <td>
               ${result.steps.filter(s => s.status === 'passed').length} passed,
               ${result.steps.filter(s => s.status === 'failed').length} failed
-              ${result.error ? `<div class="error-message">${result.error}</div>` : ''}
+              ${result.error ? `<div class="error-message">${escapeHtml(result.error)}</div>` : ''}
+              ${this.renderArtifacts(result, reportDir)}
+              ${this.hasStepDetails(result.steps) ? `
+                <details${result.status === 'failed' ? ' open' : ''}>
+                  <summary>Step details</summary>
+                  ${this.renderSteps(result.steps, reportDir)}
+                </details>
+              ` : ''}
             </td>
           </tr>
         `).join('')}
       </tbody>
-    </table>
+    </table>`;
+  }
 
-    ${report.metadata && Object.keys(report.metadata).length > 0 ? `
-      <h2 style="margin-top: 40px;">Environment</h2>
+  /**
+   * Locators healed during the run, numbered as `heal:apply --select` expects
+   */
+  private renderHealing(report: TestReport): string {
+    const suggestions = collectHealingSuggestions(report.results);
+    if (suggestions.length === 0) {
+      return '';
+    }
+
+    return `
+      <h2 style="margin-top: 40px;">🩹 Self-Healing</h2>
       <table class="results-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Updates</th>
+            <th>Broken Locator</th>
+            <th>Healed Locator</th>
+            <th>Strategy</th>
+            <th>Healed In</th>
+          </tr>
+        </thead>
         <tbody>
-          ${Object.entries(report.metadata).map(([key, value]) => `
+          ${suggestions.map(suggestion => `
             <tr>
-              <td><strong>${key}</strong></td>
-              <td>${value}</td>
+              <td>${suggestion.number}</td>
+              <td>${escapeHtml(describeSuggestionTarget(suggestion) || '') || '<em>manual update</em>'}</td>
+              <td><code>${suggestion.originalLocator.type}=${escapeHtml(suggestion.originalLocator.value)}</code></td>
+              <td><code>${suggestion.healedLocator.type}=${escapeHtml(suggestion.healedLocator.value)}</code></td>
+              <td>${escapeHtml(suggestion.strategy)}${suggestion.confidence !== undefined ? ` (${Math.round(suggestion.confidence * 100)}%)` : ''}${this.renderCandidates(suggestion.candidates)}</td>
+              <td>${escapeHtml(suggestion.tests.join(', '))} (${suggestion.occurrences}x)</td>
             </tr>
           `).join('')}
         </tbody>
       </table>
-    ` : ''}
-  </div>
-</body>
-</html>
-    `.trim();
+      <p style="margin-top: 12px; color: #718096;">
+        Apply approved fixes with: <code>heal:apply &lt;report.json&gt; --select 1,2</code>
+      </p>
+    `;
+  }
+
+  /**
+   * Fingerprint scores behind a healing, so reviewers can see how close the runners-up were
+   */
+  private renderCandidates(candidates?: FingerprintMatch[]): string {
+    if (!candidates?.length) {
+      return '';
+    }
+
+    return `<ul class="step-list">${candidates.map(candidate => `
+      <li title="${Object.entries(candidate.breakdown).map(([component, score]) => `${component}: ${score}`).join(', ')}">
+        ${Math.round(candidate.score * 100)}% <code>${escapeHtml(candidate.locator.value)}</code>
+      </li>`).join('')}</ul>`;
+  }
+
+  /**
+   * Links to the trace / video of a run, relative to the report file
+   */
+  private renderArtifacts(result: ExecutionResult, reportDir: string): string {
+    const link = (file: string) => path.relative(reportDir, file).split(path.sep).join('/');
+    const links = [
+      result.trace ? `<a href="${escapeHtml(link(result.trace))}" title="Open with: npx playwright show-trace">🔍 Trace</a>` : '',
+      result.video ? `<a href="${escapeHtml(link(result.video))}">🎬 Video</a>` : ''
+    ].filter(Boolean);
+
+    return links.length > 0 ? `<div class="artifacts">${links.join(' ')}</div>` : '';
+  }
+
+  /**
+   * Step list with nested results (blocks and called test cases) indented under their parent
+   */
+  private renderSteps(steps: StepResult[], reportDir: string, labelPrefix: string = ''): string {
+    const link = (file: string) => path.relative(reportDir, file).split(path.sep).join('/');
+
+    return `<ul class="step-list">${steps.map((step, index) => {
+      const label = `${labelPrefix}${index + 1}`;
+      const icon = step.status === 'passed' ? '✅' : step.status === 'failed' ? '❌' : '⏭️';
+      return `
+        <li class="${step.status}">
+          ${icon} ${label}. ${escapeHtml(step.action || '')} ${escapeHtml(step.object || '')} (${step.duration}ms)
+          ${step.healing?.healed ? `<div>🩹 Healed (${escapeHtml(step.healing.strategy)}${step.healing.confidence !== undefined ? `, ${Math.round(step.healing.confidence * 100)}%` : ''}): ${escapeHtml(`${step.healing.locator.type}=${step.healing.locator.value}`)}</div>` : ''}
+          ${step.error ? `<div class="error-message">${escapeHtml(step.error)}</div>` : ''}
+          ${step.screenshot ? `<a href="${escapeHtml(link(step.screenshot))}"><img class="step-screenshot" src="${escapeHtml(link(step.screenshot))}" alt="Step ${label} screenshot"></a>` : ''}
+          ${step.domSnapshot ? `<a href="${escapeHtml(link(step.domSnapshot))}">📄 DOM snapshot</a>` : ''}
+          ${step.children?.length ? this.renderSteps(step.children, reportDir, `${label}.`) : ''}
+        </li>`;
+    }).join('')}</ul>`;
+  }
+
+  /**
+   * Steps are listed when some are nested, healed or carry screenshots / snapshots
+   */
+  private hasStepDetails(steps: StepResult[]): boolean {
+    return steps.some(step => step.children?.length || step.screenshot || step.domSnapshot || step.healing?.healed);
   }
 
   printConsoleSummary(): void {
@@ -306,6 +596,36 @@ export class Reporter {
     console.log(`⏭️  Skipped:       ${report.summary.skipped}`);
     console.log(`⏱️  Total Duration: ${(report.summary.totalDuration / 1000).toFixed(2)}s`);
     console.log(`📈 Pass Rate:     ${report.summary.passRate.toFixed(2)}%`);
+
+    if (report.browsers) {
+      console.log('-'.repeat(60));
+      for (const summary of report.browsers) {
+        console.log(`🌐 ${summary.browser.padEnd(10)} ${summary.passed}/${summary.totalTests} passed (${summary.passRate.toFixed(2)}%)`);
+      }
+    }
     console.log('='.repeat(60) + '\n');
   }
 }
+
+function escapeHtml(value: any): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeXml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
@@ -0,0 +1,241 @@
+import { ExecutionResult, BrowserName } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Slim copy of an ExecutionResult kept in the history (no steps or logs)
+ */
+export interface HistoryResult {
+  testCaseId: string;
+  name: string;
+  status: ExecutionResult['status'];
+  duration: number;
+  startTime: number;
+  browser?: BrowserName;
+  error?: string;
+}
+
+export interface RunRecord {
+  runId: string;
+  timestamp: number;
+  suiteId?: string;
+  suiteName: string;
+  environment?: string;
+  results: HistoryResult[];
+}
+
+export interface TestTrend {
+  key: string;              // Test name, plus browser in matrix runs
+  runs: number;
+  passRate: number;
+  averageDuration: number;
+  durationGrowth: number;   // Relative growth of duration over the analysed runs (0.25 = +25%)
+  flakiness: number;        // Share of consecutive runs where the status flipped (0..1)
+  lastStatus: ExecutionResult['status'];
+}
+
+export interface TrendReport {
+  runs: Array<{ runId: string; timestamp: number; suiteName: string; total: number; passed: number; passRate: number }>;
+  slowest: TestTrend[];
+  growing: TestTrend[];
+  flaky: TestTrend[];
+  tests: TestTrend[];
+}
+
+export interface TrendOptions {
+  suite?: string;           // Suite id or name
+  last?: number;            // Only the most recent N runs
+  top?: number;             // Entries per list (default 10)
+  growthThreshold?: number; // Minimum durationGrowth to count as growing (default 0.2)
+}
+
+/**
+ * Local store of every execution, one JSON line per run.
+ * Used by `report:trends` for pass rate, duration and flakiness analysis.
+ */
+export class RunHistory {
+  private filePath: string;
+
+  constructor(filePath: string = './reports/history.jsonl') {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Append a run to the history
+   */
+  record(run: Omit<RunRecord, 'runId' | 'timestamp' | 'results'> & { results: ExecutionResult[] }): RunRecord {
+    const timestamp = Date.now();
+    const record: RunRecord = {
+      ...run,
+      runId: uuidv4(),
+      timestamp,
+      results: run.results.map(result => ({
+        testCaseId: result.testCaseId,
+        name: result.name || result.testCaseId,
+        status: result.status,
+        duration: result.duration,
+        startTime: result.startTime,
+        browser: result.browser,
+        error: result.error
+      }))
+    };
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+    console.log(`🗃️  Run recorded in history: ${this.filePath}`);
+    return record;
+  }
+
+  /**
+   * All runs, oldest first. Unreadable lines are skipped.
+   */
+  load(): RunRecord[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    return fs.readFileSync(this.filePath, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim())
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as RunRecord];
+        } catch {
+          console.warn(`⚠️ Skipping unreadable history line: ${line.substring(0, 60)}...`);
+          return [];
+        }
+      })
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  analyzeTrends(options: TrendOptions = {}): TrendReport {
+    const top = options.top || 10;
+    const growthThreshold = options.growthThreshold ?? 0.2;
+
+    let runs = this.load();
+    if (options.suite) {
+      runs = runs.filter(run => run.suiteId === options.suite || run.suiteName === options.suite);
+    }
+    if (options.last) {
+      runs = runs.slice(-options.last);
+    }
+
+    // Results of each test, oldest first
+    const history = new Map<string, HistoryResult[]>();
+    for (const run of runs) {
+      for (const result of run.results) {
+        const key = result.browser ? `${result.name} [${result.browser}]` : result.name;
+        history.set(key, [...(history.get(key) || []), result]);
+      }
+    }
+
+    const tests: TestTrend[] = [...history.entries()].map(([key, results]) => {
+      const passed = results.filter(r => r.status === 'passed').length;
+      const flips = results.slice(1).filter((r, i) => r.status !== results[i].status).length;
+
+      return {
+        key,
+        runs: results.length,
+        passRate: (passed / results.length) * 100,
+        averageDuration: results.reduce((sum, r) => sum + r.duration, 0) / results.length,
+        durationGrowth: durationGrowth(results.map(r => r.duration)),
+        flakiness: results.length > 1 ? flips / (results.length - 1) : 0,
+        lastStatus: results[results.length - 1].status
+      };
+    });
+
+    return {
+      runs: runs.map(run => {
+        const passed = run.results.filter(r => r.status === 'passed').length;
+        return {
+          runId: run.runId,
+          timestamp: run.timestamp,
+          suiteName: run.suiteName,
+          total: run.results.length,
+          passed,
+          passRate: run.results.length > 0 ? (passed / run.results.length) * 100 : 0
+        };
+      }),
+      slowest: [...tests].sort((a, b) => b.averageDuration - a.averageDuration).slice(0, top),
+      growing: tests
+        .filter(test => test.runs >= 3 && test.durationGrowth >= growthThreshold)
+        .sort((a, b) => b.durationGrowth - a.durationGrowth)
+        .slice(0, top),
+      flaky: tests
+        .filter(test => test.flakiness > 0)
+        .sort((a, b) => b.flakiness - a.flakiness)
+        .slice(0, top),
+      tests
+    };
+  }
+
+  printTrends(report: TrendReport): void {
+    if (report.runs.length === 0) {
+      console.log(`\n📭 No runs recorded in ${this.filePath}\n`);
+      return;
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`📈 TRENDS (${report.runs.length} run(s))`);
+    console.log('='.repeat(60));
+
+    console.log('\nPass rate over time:');
+    for (const run of report.runs) {
+      const bar = '█'.repeat(Math.round(run.passRate / 5)).padEnd(20, '░');
+      console.log(`  ${new Date(run.timestamp).toLocaleString().padEnd(24)} ${bar} ${run.passRate.toFixed(1).padStart(5)}% (${run.passed}/${run.total}) ${run.suiteName}`);
+    }
+
+    console.log('\n🐢 Slowest tests (average):');
+    report.slowest.forEach(test => {
+      console.log(`  ${(test.averageDuration / 1000).toFixed(2).padStart(8)}s  ${test.key}`);
+    });
+
+    console.log('\n📊 Growing duration:');
+    if (report.growing.length === 0) {
+      console.log('  none');
+    }
+    report.growing.forEach(test => {
+      console.log(`  +${(test.durationGrowth * 100).toFixed(0).padStart(4)}%  ${test.key} (${test.runs} runs)`);
+    });
+
+    console.log('\n🎲 Flaky tests (status flips between runs):');
+    if (report.flaky.length === 0) {
+      console.log('  none');
+    }
+    report.flaky.forEach(test => {
+      console.log(`  ${test.flakiness.toFixed(2).padStart(6)}  ${test.key} (pass rate ${test.passRate.toFixed(0)}% over ${test.runs} runs)`);
+    });
+
+    console.log('='.repeat(60) + '\n');
+  }
+}
+
+/**
+ * Growth of the least-squares trend line across the series, relative to its mean
+ */
+function durationGrowth(durations: number[]): number {
+  const n = durations.length;
+  if (n < 2) {
+    return 0;
+  }
+
+  const meanX = (n - 1) / 2;
+  const meanY = durations.reduce((sum, d) => sum + d, 0) / n;
+  if (meanY === 0) {
+    return 0;
+  }
+
+  let numerator = 0;
+  let denominator = 0;
+  durations.forEach((duration, x) => {
+    numerator += (x - meanX) * (duration - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+
+  return ((numerator / denominator) * (n - 1)) / meanY;
+}
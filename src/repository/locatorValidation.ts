@@ -0,0 +1,138 @@
+import type { Page, Locator } from 'playwright';
+import { ElementLocator, PlatformType } from '../types';
+import { ObjectRepositoryManager, UIObject } from './objectRepository';
+import { webLocator } from '../healing/strategies';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * unique: exactly one element, ambiguous: several, broken: none,
+ * error: the locator could not be evaluated (e.g. invalid selector)
+ */
+export type LocatorStatus = 'unique' | 'ambiguous' | 'broken' | 'error';
+
+/**
+ * ok: the primary locator is unique, fallback: only a fallback locator is,
+ * ambiguous: no locator is unique but some match, broken: nothing matches
+ */
+export type ObjectStatus = 'ok' | 'fallback' | 'ambiguous' | 'broken';
+
+export interface LocatorCheck {
+  locator: ElementLocator;
+  status: LocatorStatus;
+  count: number;
+  error?: string;
+}
+
+export interface ObjectValidation {
+  objectId: string;
+  objectName: string;
+  status: ObjectStatus;
+  locators: LocatorCheck[];
+}
+
+export interface ValidationReport {
+  url: string;
+  platform: PlatformType;
+  validatedAt: number;
+  summary: Record<ObjectStatus, number> & { total: number };
+  objects: ObjectValidation[];
+}
+
+/**
+ * Checks the locators of repository objects against a live page, to find
+ * stale objects before a run fails on them
+ */
+export class LocatorValidator {
+  constructor(private repository: ObjectRepositoryManager) {}
+
+  async validateWeb(page: Page, filter: { tags?: string[] } = {}): Promise<ValidationReport> {
+    const objects = this.repository.searchObjects({ platform: PlatformType.WEB, tags: filter.tags });
+    console.log(`🔍 Validating ${objects.length} web object(s) on ${page.url()}`);
+
+    const results: ObjectValidation[] = [];
+    for (const object of objects) {
+      const scope = this.webScope(page, object);
+      results.push(await this.validateObject(object, locator => webLocator(scope, locator).count()));
+    }
+
+    const summary = { total: results.length, ok: 0, fallback: 0, ambiguous: 0, broken: 0 };
+    results.forEach(result => summary[result.status]++);
+
+    return {
+      url: page.url(),
+      platform: PlatformType.WEB,
+      validatedAt: Date.now(),
+      summary,
+      objects: results
+    };
+  }
+
+  /**
+   * Scoped objects are counted inside the first match of their parents'
+   * primary locators
+   */
+  private webScope(page: Page, object: UIObject): Page | Locator {
+    return this.repository.getObjectChain(object.id)
+      .slice(0, -1)
+      .filter(parent => parent.locators.length > 0)
+      .reduce<Page | Locator>((scope, parent) => webLocator(scope, parent.locators[0]).first(), page);
+  }
+
+  private async validateObject(object: UIObject, count: (locator: ElementLocator) => Promise<number>): Promise<ObjectValidation> {
+    const checks: LocatorCheck[] = [];
+    for (const locator of object.locators) {
+      try {
+        const matches = await count(locator);
+        checks.push({ locator, count: matches, status: matches === 1 ? 'unique' : matches > 1 ? 'ambiguous' : 'broken' });
+      } catch (error: any) {
+        checks.push({ locator, count: 0, status: 'error', error: error.message.split('\n')[0] });
+      }
+    }
+
+    let status: ObjectStatus = 'broken';
+    if (checks[0]?.status === 'unique') {
+      status = 'ok';
+    } else if (checks.some(check => check.status === 'unique')) {
+      status = 'fallback';
+    } else if (checks.some(check => check.status === 'ambiguous')) {
+      status = 'ambiguous';
+    }
+
+    return { objectId: object.id, objectName: object.name, status, locators: checks };
+  }
+}
+
+const STATUS_ICONS: Record<ObjectStatus, string> = {
+  ok: '✅',
+  fallback: '🟡',
+  ambiguous: '⚠️ ',
+  broken: '❌'
+};
+
+/**
+ * Console summary: flagged objects with the result of each locator
+ */
+export function printValidationReport(report: ValidationReport, showAll: boolean = false): void {
+  console.log(`\n🔍 Locator validation: ${report.url}\n`);
+
+  for (const object of report.objects) {
+    if (object.status === 'ok' && !showAll) {
+      continue;
+    }
+    console.log(`  ${STATUS_ICONS[object.status]} ${object.objectName} (${object.status})`);
+    object.locators.forEach((check, index) => {
+      const matches = check.status === 'error' ? check.error : `${check.count} match${check.count === 1 ? '' : 'es'}`;
+      console.log(`     ${index === 0 ? 'primary ' : 'fallback'} ${check.locator.type}=${check.locator.value}: ${matches}`);
+    });
+  }
+
+  const { summary } = report;
+  console.log(`\n📊 ${summary.total} object(s): ${summary.ok} ok, ${summary.fallback} only via fallback, ${summary.ambiguous} ambiguous, ${summary.broken} broken\n`);
+}
+
+export function saveValidationReport(report: ValidationReport, outputPath: string): void {
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(report, null, 2));
+  console.log(`📄 Validation report saved: ${outputPath}`);
+}
@@ -1,5 +1,7 @@
 import * as readline from 'readline';
-import { ObjectRepositoryManager, UIObject } from './objectRepository';
+import { ObjectRepositoryManager, UIObject, ObjectFolder } from './objectRepository';
+import { ObjectUsageIndex } from './objectUsage';
+import { MergeResult, resolveConflict, resolveAllConflicts, unresolvedConflicts, describeMergeValue, printMergeReport } from './repositoryMerge';
 import { PlatformType, ElementLocator } from '../types';
 import chalk from 'chalk';
 
@@ -11,9 +13,11 @@ import chalk from 'chalk';
 export class ObjectRepositoryEditor {
   private manager: ObjectRepositoryManager;
   private currentObject: UIObject | null = null;
+  private originalName: string = '';
 
   constructor(repositoryPath?: string) {
     this.manager = new ObjectRepositoryManager(repositoryPath);
+    this.manager.setChangeSource('editor');
   }
 
   async start(): Promise<void> {
@@ -45,12 +49,13 @@ export class ObjectRepositoryEditor {
       console.log('  5. Search objects');
       console.log('  6. View statistics');
       console.log('  7. Import/Export');
-      console.log('  8. Exit');
+      console.log('  8. Folders');
+      console.log('  9. Exit');
       console.log('═'.repeat(50));
     };
 
     const prompt = () => {
-      rl.question(chalk.yellow('\n📝 Choose option (1-8): '), async (answer) => {
+      rl.question(chalk.yellow('\n📝 Choose option (1-9): '), async (answer) => {
         console.log('');
 
         switch (answer.trim()) {
@@ -97,6 +102,12 @@ export class ObjectRepositoryEditor {
             break;
 
           case '8':
+            await this.manageFolders(rl);
+            showMenu();
+            prompt();
+            break;
+
+          case '9':
             console.log(chalk.green('\n✅ Goodbye!\n'));
             rl.close();
             break;
@@ -226,7 +237,9 @@ export class ObjectRepositoryEditor {
       return;
     }
 
-    this.currentObject = object;
+    // Edit a copy - the stored object only changes on "Save"
+    this.currentObject = JSON.parse(JSON.stringify(object));
+    this.originalName = object.name;
     console.log(chalk.green(`\n✅ Found object: ${object.name}`));
     this.displayObjectDetails(object);
 
@@ -245,17 +258,23 @@ export class ObjectRepositoryEditor {
     console.log('  5. Reorder locators');
     console.log('  6. Edit attributes');
     console.log('  7. Edit tags');
-    console.log('  8. Save and return');
-    console.log('  9. Cancel (discard changes)');
+    console.log('  8. Set parent object');
+    console.log('  9. Save and return');
+    console.log('  10. Cancel (discard changes)');
     console.log('═'.repeat(50));
 
-    const choice = await this.question(rl, '\nChoose option (1-9): ');
+    const choice = await this.question(rl, '\nChoose option (1-10): ');
 
     switch (choice) {
       case '1':
         const newName = await this.question(rl, 'New name: ');
-        this.currentObject.name = newName;
-        console.log(chalk.green('✅ Name updated'));
+        const existing = this.manager.getObjectByName(newName);
+        if (existing && existing.id !== this.currentObject.id) {
+          console.log(chalk.red(`❌ Another object is already named "${newName}"`));
+        } else {
+          this.currentObject.name = newName;
+          console.log(chalk.green('✅ Name updated'));
+        }
         await this.editObjectMenu(rl);
         break;
 
@@ -292,12 +311,36 @@ export class ObjectRepositoryEditor {
         break;
 
       case '8':
-        this.manager.updateObject(this.currentObject.id, this.currentObject);
+        await this.setParentObject(rl);
+        await this.editObjectMenu(rl);
+        break;
+
+      case '9': {
+        const { name, updatedAt, ...changes } = this.currentObject;
+        if (name !== this.originalName) {
+          // Renames go through renameObject, which rejects names taken in the meantime
+          try {
+            this.manager.renameObject(this.currentObject.id, name);
+          } catch (error: any) {
+            console.log(chalk.red(`❌ ${error.message}`));
+            await this.editObjectMenu(rl);
+            break;
+          }
+          const steps = new ObjectUsageIndex().build()
+            .renameInSteps(this.currentObject.id, this.originalName, name);
+          console.log(chalk.gray(`   ${steps} step description(s) updated`));
+        }
+        // Other edits are saved separately, so a plain rename is one history entry
+        const { name: storedName, updatedAt: storedAt, ...stored } = this.manager.getObject(this.currentObject.id)!;
+        if (JSON.stringify(changes) !== JSON.stringify(stored)) {
+          this.manager.updateObject(this.currentObject.id, changes);
+        }
         console.log(chalk.green('\n✅ Object saved successfully!'));
         this.currentObject = null;
         break;
+      }
 
-      case '9':
+      case '10':
         console.log(chalk.yellow('\n⚠️  Changes discarded'));
         this.currentObject = null;
         break;
@@ -403,6 +446,98 @@ export class ObjectRepositoryEditor {
     console.log(chalk.green('✅ Attributes updated'));
   }
 
+  private async setParentObject(rl: readline.Interface): Promise<void> {
+    console.log(chalk.bold('\n📂 PARENT OBJECT'));
+    console.log('Child locators are resolved inside the parent element (dialog, table row, ...)');
+    const current = this.currentObject!.parentObject && this.manager.getObject(this.currentObject!.parentObject);
+    console.log(`Current parent: ${current ? current.name : 'none'}`);
+
+    const name = await this.question(rl, 'Parent object name (press Enter for none): ');
+    const parent = name ? this.manager.getObjectByName(name) : undefined;
+    if (name && !parent) {
+      console.log(chalk.red(`❌ Object "${name}" not found`));
+      return;
+    }
+    if (parent && (parent.platform !== this.currentObject!.platform
+      || this.manager.getObjectChain(parent.id).some(ancestor => ancestor.id === this.currentObject!.id))) {
+      console.log(chalk.red(`❌ ${parent.name} cannot be the parent (other platform, or it is inside this object)`));
+      return;
+    }
+
+    this.currentObject!.parentObject = parent?.id;
+    console.log(chalk.green(`✅ Parent ${parent ? `set to ${parent.name}` : 'removed'}`));
+  }
+
+  private async manageFolders(rl: readline.Interface): Promise<void> {
+    console.log(chalk.bold.cyan('\n📁 FOLDERS'));
+    console.log('═'.repeat(70));
+    this.manager.printFolderTree();
+
+    console.log('  1. Create folder');
+    console.log('  2. Move folder');
+    console.log('  3. Move object to folder');
+    console.log('  4. Back');
+
+    const choice = await this.question(rl, '\nChoose option (1-4): ');
+    try {
+      switch (choice) {
+        case '1': {
+          const name = await this.question(rl, 'Folder name: ');
+          const description = await this.question(rl, 'Description: ');
+          const parent = await this.askFolder(rl, 'Inside folder path (e.g. Pages/Checkout, press Enter for top level): ');
+          if (parent !== null) {
+            this.manager.createFolder(name, description, parent?.id);
+          }
+          break;
+        }
+
+        case '2': {
+          const folder = await this.askFolder(rl, 'Folder path to move: ');
+          if (!folder) {
+            break;
+          }
+          const parent = await this.askFolder(rl, 'Move into folder path (press Enter for top level): ');
+          if (parent !== null) {
+            this.manager.moveFolder(folder.id, parent?.id);
+          }
+          break;
+        }
+
+        case '3': {
+          const name = await this.question(rl, 'Object name: ');
+          const object = this.manager.getObjectByName(name);
+          if (!object) {
+            console.log(chalk.red(`❌ Object "${name}" not found`));
+            break;
+          }
+          const folder = await this.askFolder(rl, 'Folder path (press Enter for none): ');
+          if (folder !== null) {
+            this.manager.moveObjectToFolder(object.id, folder?.id);
+          }
+          break;
+        }
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+    }
+  }
+
+  /**
+   * Folder by path; undefined for an empty answer, null if not found
+   */
+  private async askFolder(rl: readline.Interface, prompt: string): Promise<ObjectFolder | undefined | null> {
+    const folderPath = await this.question(rl, prompt);
+    if (!folderPath) {
+      return undefined;
+    }
+    const folder = this.manager.getFolderByPath(folderPath);
+    if (!folder) {
+      console.log(chalk.red(`❌ Folder "${folderPath}" not found`));
+      return null;
+    }
+    return folder;
+  }
+
   private async editTags(rl: readline.Interface): Promise<void> {
     console.log(chalk.bold('\n🏷️  EDIT TAGS'));
     console.log(`Current tags: ${this.currentObject?.tags?.join(', ') || 'none'}`);
@@ -428,6 +563,15 @@ export class ObjectRepositoryEditor {
 
     this.displayObjectDetails(object);
 
+    const usages = new ObjectUsageIndex().build().getUsages(object.id);
+    if (usages.length > 0) {
+      console.log(chalk.red(`\n⚠️  Still used by ${usages.length} step(s):`));
+      usages.forEach(usage => {
+        console.log(`   ${usage.testName} - step ${usage.step}: ${usage.description || usage.actionId}`);
+      });
+      console.log(chalk.red('   They fall back to their recorded locators once the object is deleted.'));
+    }
+
     const confirm = await this.question(rl, chalk.yellow('\n⚠️  Confirm deletion? (yes/no): '));
 
     if (confirm.toLowerCase() === 'yes') {
@@ -489,10 +633,81 @@ export class ObjectRepositoryEditor {
     } else if (choice === '2') {
       const path = await this.question(rl, 'Import from file path: ');
       const merge = await this.question(rl, 'Merge with existing? (y/n): ');
-      this.manager.importRepository(path, merge.toLowerCase() === 'y');
+      if (merge.toLowerCase() === 'y') {
+        const basePath = await this.question(rl, 'Common base version file (press Enter to skip): ');
+        await this.mergeImport(rl, path, basePath || undefined);
+      } else {
+        this.manager.importRepository(path);
+      }
+    }
+  }
+
+  /**
+   * Three-way merge an imported repository, resolving conflicts one by one
+   * (used by `repo:import --interactive`)
+   */
+  async importWithMerge(importPath: string, basePath?: string): Promise<void> {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+
+    try {
+      await this.mergeImport(rl, importPath, basePath);
+    } finally {
+      rl.close();
     }
   }
 
+  private async mergeImport(rl: readline.Interface, importPath: string, basePath?: string): Promise<void> {
+    const result = this.manager.planImport(importPath, basePath);
+    printMergeReport(result);
+
+    if (result.conflicts.length > 0 && !(await this.resolveMergeConflicts(rl, result))) {
+      console.log(chalk.yellow('❌ Import cancelled - nothing was changed'));
+      return;
+    }
+
+    this.manager.applyMerge(result, importPath);
+    console.log(chalk.green('✅ Repository merged'));
+  }
+
+  /**
+   * Ask for ours / theirs per conflict. Returns false when cancelled.
+   */
+  private async resolveMergeConflicts(rl: readline.Interface, result: MergeResult): Promise<boolean> {
+    console.log(chalk.bold.cyan('\n⚔️  RESOLVE CONFLICTS'));
+    console.log('═'.repeat(70));
+
+    for (const conflict of result.conflicts) {
+      if (conflict.resolution) {
+        continue;
+      }
+
+      console.log(chalk.bold(`\n📦 ${conflict.objectName} - ${conflict.field}`));
+      if (result.hasBase) {
+        console.log(`  ${chalk.gray('base:  ')} ${describeMergeValue(conflict.field, conflict.base)}`);
+      }
+      console.log(`  ${chalk.cyan('ours:  ')} ${describeMergeValue(conflict.field, conflict.ours)}`);
+      console.log(`  ${chalk.magenta('theirs:')} ${describeMergeValue(conflict.field, conflict.theirs)}`);
+
+      let answer = await this.question(rl, 'Keep (o)urs, (t)heirs, (O)urs / (T)heirs for all remaining, or (q)uit: ');
+      while (!['o', 't', 'O', 'T', 'q'].includes(answer)) {
+        answer = await this.question(rl, chalk.red('❌ Invalid choice - o, t, O, T or q: '));
+      }
+
+      switch (answer) {
+        case 'o': resolveConflict(result, conflict, 'ours'); break;
+        case 't': resolveConflict(result, conflict, 'theirs'); break;
+        case 'O': resolveAllConflicts(result, 'ours'); break;
+        case 'T': resolveAllConflicts(result, 'theirs'); break;
+        case 'q': return false;
+      }
+    }
+
+    return unresolvedConflicts(result).length === 0;
+  }
+
   private displayObjectDetails(object: UIObject): void {
     console.log(chalk.bold('\n📦 OBJECT DETAILS'));
     console.log('─'.repeat(70));
@@ -501,6 +716,15 @@ export class ObjectRepositoryEditor {
     console.log(`${chalk.bold('Platform:')} ${object.platform}`);
     console.log(`${chalk.bold('ID:')} ${chalk.gray(object.id)}`);
 
+    const chain = this.manager.getObjectChain(object.id);
+    if (chain.length > 1) {
+      console.log(`${chalk.bold('Inside:')} ${chain.slice(0, -1).map(parent => parent.name).join(' > ')}`);
+    }
+    const folder = this.manager.getObjectFolder(object.id);
+    if (folder) {
+      console.log(`${chalk.bold('Folder:')} ${this.manager.getFolderPath(folder.id)}`);
+    }
+
     console.log(chalk.bold('\n🎯 Locators:'));
     object.locators.forEach((loc, i) => {
       console.log(`  ${i + 1}. ${chalk.cyan(loc.type)}: ${loc.value}`);
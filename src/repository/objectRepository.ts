@@ -1,5 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
-import { ElementLocator, PlatformType } from '../types';
+import { ElementLocator, PlatformType, ElementFingerprint } from '../types';
+import { RepositoryHistory, ChangeSource, ChangeAction, ObjectChange } from './repositoryHistory';
+import { mergeRepositories, resolveAllConflicts, unresolvedConflicts, MergeResult, MergePolicy } from './repositoryMerge';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -21,9 +23,10 @@ export interface UIObject {
     className?: string;
     [key: string]: any;
   };
+  fingerprint?: ElementFingerprint;  // Recorded element, used for similarity healing
   screenshot?: string;
   tags?: string[];
-  parentObject?: string;       // For hierarchical organization
+  parentObject?: string;       // Object this one is located inside (dialog, table row, ...)
   createdAt: number;
   updatedAt: number;
 }
@@ -52,9 +55,12 @@ export interface Repository {
 export class ObjectRepositoryManager {
   private repository: Repository;
   private filePath: string;
+  private history: RepositoryHistory;
+  private changeSource: ChangeSource = 'api';
 
   constructor(filePath?: string) {
     this.filePath = filePath || path.join(process.cwd(), 'object-repository.json');
+    this.history = new RepositoryHistory(this.filePath);
 
     if (fs.existsSync(this.filePath)) {
       this.loadRepository();
@@ -107,6 +113,7 @@ export class ObjectRepositoryManager {
 
     this.repository.objects[newObject.id] = newObject;
     this.save();
+    this.recordChange('create', undefined, newObject);
 
     console.log(`✅ Object added: ${newObject.name} (${newObject.id})`);
     return newObject;
@@ -120,6 +127,7 @@ export class ObjectRepositoryManager {
       throw new Error(`Object not found: ${objectId}`);
     }
 
+    const before = this.snapshot(this.repository.objects[objectId]);
     this.repository.objects[objectId] = {
       ...this.repository.objects[objectId],
       ...updates,
@@ -127,6 +135,7 @@ export class ObjectRepositoryManager {
     };
 
     this.save();
+    this.recordChange('update', before, this.repository.objects[objectId]);
     console.log(`✅ Object updated: ${this.repository.objects[objectId].name}`);
     return this.repository.objects[objectId];
   }
@@ -168,39 +177,320 @@ export class ObjectRepositoryManager {
   }
 
   /**
-   * Delete an object
+   * Rename an object. Steps reference objects by ID, so they keep working;
+   * use ObjectUsageIndex.renameInSteps to update their descriptions.
+   */
+  renameObject(objectId: string, newName: string): UIObject {
+    const object = this.repository.objects[objectId];
+    if (!object) {
+      throw new Error(`Object not found: ${objectId}`);
+    }
+    const existing = this.getObjectByName(newName);
+    if (existing && existing.id !== objectId) {
+      throw new Error(`Another object is already named "${newName}" (${existing.id})`);
+    }
+
+    return this.updateObject(objectId, { name: newName });
+  }
+
+  /**
+   * Merge duplicate objects into `keepId`: their locators, tags and folders
+   * are added to the kept object and the duplicates are removed.
+   * Re-point the steps first with ObjectUsageIndex.repointSteps.
+   */
+  mergeObjects(keepId: string, duplicateIds: string[]): UIObject {
+    const kept = this.repository.objects[keepId];
+    if (!kept) {
+      throw new Error(`Object not found: ${keepId}`);
+    }
+    const before = this.snapshot(kept);
+    const merged: string[] = [];
+
+    for (const duplicateId of duplicateIds) {
+      const duplicate = this.repository.objects[duplicateId];
+      if (!duplicate) {
+        throw new Error(`Object not found: ${duplicateId}`);
+      }
+      if (duplicateId === keepId) {
+        continue;
+      }
+
+      for (const locator of duplicate.locators) {
+        if (!kept.locators.some(other => other.type === locator.type && other.value === locator.value)) {
+          kept.locators.push(locator);
+        }
+      }
+      if (duplicate.tags) {
+        kept.tags = [...new Set([...(kept.tags || []), ...duplicate.tags])];
+      }
+      kept.attributes = { ...duplicate.attributes, ...kept.attributes };
+      kept.fingerprint = kept.fingerprint || duplicate.fingerprint;
+
+      for (const folder of Object.values(this.repository.folders)) {
+        if (folder.objects.includes(duplicateId)) {
+          folder.objects = folder.objects.filter(id => id !== duplicateId);
+          if (!folder.objects.includes(keepId)) {
+            folder.objects.push(keepId);
+          }
+        }
+      }
+
+      // Child objects move to the kept object; one that contains the kept
+      // object (or is it) moves up to the duplicate's parent instead
+      for (const child of this.getChildObjects(duplicateId)) {
+        const childBefore = this.snapshot(child);
+        const containsKept = this.getObjectChain(keepId).some(object => object.id === child.id);
+        child.parentObject = containsKept ? duplicate.parentObject : keepId;
+        if (child.id !== keepId) {
+          this.recordChange('update', childBefore, child, `parent ${duplicate.name} merged into ${kept.name}`);
+        }
+      }
+
+      delete this.repository.objects[duplicateId];
+      merged.push(duplicate.name);
+      this.recordChange('delete', duplicate, undefined, `merged into ${kept.name} (${kept.id})`);
+      console.log(`🔗 Merged ${duplicate.name} into ${kept.name}`);
+    }
+
+    kept.updatedAt = Date.now();
+    this.save();
+    this.recordChange('merge', before, kept, `merged ${merged.join(', ')}`);
+    return kept;
+  }
+
+  /**
+   * Delete an object. Steps that still use it are not checked here - look
+   * them up first with ObjectUsageIndex.getUsages.
    */
   deleteObject(objectId: string): void {
     if (!this.repository.objects[objectId]) {
       throw new Error(`Object not found: ${objectId}`);
     }
 
-    const objectName = this.repository.objects[objectId].name;
+    const object = this.repository.objects[objectId];
+    const objectName = object.name;
+
+    // Child objects move up to the deleted object's parent
+    for (const child of this.getChildObjects(objectId)) {
+      const before = this.snapshot(child);
+      child.parentObject = object.parentObject;
+      this.recordChange('update', before, child, `parent ${objectName} deleted`);
+    }
+
     delete this.repository.objects[objectId];
+    for (const folder of Object.values(this.repository.folders)) {
+      folder.objects = folder.objects.filter(id => id !== objectId);
+    }
     this.save();
+    this.recordChange('delete', object, undefined);
 
     console.log(`🗑️  Object deleted: ${objectName}`);
   }
 
   /**
-   * Create a folder for organizing objects
+   * Create a folder for organizing objects, at the top level or inside `parentFolderId`
    */
-  createFolder(name: string, description: string): ObjectFolder {
+  createFolder(name: string, description: string, parentFolderId?: string): ObjectFolder {
+    if (parentFolderId && !this.repository.folders[parentFolderId]) {
+      throw new Error(`Folder not found: ${parentFolderId}`);
+    }
+
     const folder: ObjectFolder = {
       id: uuidv4(),
       name,
       description,
       objects: [],
+      subFolders: [],
       createdAt: Date.now()
     };
 
     this.repository.folders[folder.id] = folder;
+    if (parentFolderId) {
+      const parent = this.repository.folders[parentFolderId];
+      parent.subFolders = [...(parent.subFolders || []), folder.id];
+    }
     this.save();
 
-    console.log(`📁 Folder created: ${name}`);
+    console.log(`📁 Folder created: ${this.getFolderPath(folder.id)}`);
     return folder;
   }
 
+  /**
+   * Move a folder into another one, or to the top level without `parentFolderId`
+   */
+  moveFolder(folderId: string, parentFolderId?: string): void {
+    if (!this.repository.folders[folderId]) {
+      throw new Error(`Folder not found: ${folderId}`);
+    }
+    if (parentFolderId) {
+      if (!this.repository.folders[parentFolderId]) {
+        throw new Error(`Folder not found: ${parentFolderId}`);
+      }
+      if (parentFolderId === folderId || this.getFolderDescendants(folderId).includes(parentFolderId)) {
+        throw new Error(`Cannot move a folder into itself or one of its sub-folders`);
+      }
+    }
+
+    for (const folder of Object.values(this.repository.folders)) {
+      if (folder.subFolders?.includes(folderId)) {
+        folder.subFolders = folder.subFolders.filter(id => id !== folderId);
+      }
+    }
+    if (parentFolderId) {
+      const parent = this.repository.folders[parentFolderId];
+      parent.subFolders = [...(parent.subFolders || []), folderId];
+    }
+    this.save();
+
+    console.log(`📁 Folder moved: ${this.getFolderPath(folderId)}`);
+  }
+
+  /**
+   * Folders that are not inside another folder
+   */
+  getRootFolders(): ObjectFolder[] {
+    const nested = new Set(Object.values(this.repository.folders).flatMap(folder => folder.subFolders || []));
+    return Object.values(this.repository.folders).filter(folder => !nested.has(folder.id));
+  }
+
+  getSubFolders(folderId: string): ObjectFolder[] {
+    const folder = this.repository.folders[folderId];
+    if (!folder) {
+      throw new Error(`Folder not found: ${folderId}`);
+    }
+    return (folder.subFolders || [])
+      .map(id => this.repository.folders[id])
+      .filter(subFolder => subFolder !== undefined);
+  }
+
+  getParentFolder(folderId: string): ObjectFolder | undefined {
+    return Object.values(this.repository.folders).find(folder => folder.subFolders?.includes(folderId));
+  }
+
+  getFolderByPath(folderPath: string): ObjectFolder | undefined {
+    return Object.values(this.repository.folders).find(folder => this.getFolderPath(folder.id) === folderPath);
+  }
+
+  /**
+   * "Pages/Checkout/Payment"
+   */
+  getFolderPath(folderId: string): string {
+    const names: string[] = [];
+    const seen = new Set<string>();
+    for (let folder = this.repository.folders[folderId]; folder && !seen.has(folder.id); folder = this.getParentFolder(folder.id)) {
+      seen.add(folder.id);
+      names.unshift(folder.name);
+    }
+    return names.join('/');
+  }
+
+  /**
+   * Folder the object is filed in, if any
+   */
+  getObjectFolder(objectId: string): ObjectFolder | undefined {
+    return Object.values(this.repository.folders).find(folder => folder.objects.includes(objectId));
+  }
+
+  /**
+   * File an object in exactly one folder, or in none without `folderId`
+   */
+  moveObjectToFolder(objectId: string, folderId?: string): void {
+    if (!this.repository.objects[objectId]) {
+      throw new Error(`Object not found: ${objectId}`);
+    }
+    if (folderId && !this.repository.folders[folderId]) {
+      throw new Error(`Folder not found: ${folderId}`);
+    }
+
+    for (const folder of Object.values(this.repository.folders)) {
+      folder.objects = folder.objects.filter(id => id !== objectId);
+    }
+    if (folderId) {
+      this.repository.folders[folderId].objects.push(objectId);
+    }
+    this.save();
+
+    console.log(`📁 ${this.repository.objects[objectId].name} moved to ${folderId ? this.getFolderPath(folderId) : 'the top level'}`);
+  }
+
+  /**
+   * Scope an object inside a parent object - its locators are then resolved
+   * within the parent's element. Without `parentId` the object is top-level again.
+   */
+  setParentObject(objectId: string, parentId?: string): UIObject {
+    const object = this.repository.objects[objectId];
+    if (!object) {
+      throw new Error(`Object not found: ${objectId}`);
+    }
+    if (parentId) {
+      const parent = this.repository.objects[parentId];
+      if (!parent) {
+        throw new Error(`Object not found: ${parentId}`);
+      }
+      if (parent.platform !== object.platform) {
+        throw new Error(`Parent ${parent.name} is a ${parent.platform} object, ${object.name} is ${object.platform}`);
+      }
+      if (this.getObjectChain(parentId).some(ancestor => ancestor.id === objectId)) {
+        throw new Error(`${parent.name} is inside ${object.name} - it cannot be its parent`);
+      }
+    }
+
+    return this.updateObject(objectId, { parentObject: parentId });
+  }
+
+  getChildObjects(parentId: string): UIObject[] {
+    return Object.values(this.repository.objects).filter(obj => obj.parentObject === parentId);
+  }
+
+  /**
+   * The object and its parents, outermost first
+   */
+  getObjectChain(objectId: string): UIObject[] {
+    const chain: UIObject[] = [];
+    for (let object = this.repository.objects[objectId]; object && !chain.includes(object); object = this.repository.objects[object.parentObject!]) {
+      chain.unshift(object);
+    }
+    return chain;
+  }
+
+  /**
+   * Print folders as a tree with their objects; child objects are indented
+   * under their parent
+   */
+  printFolderTree(): void {
+    const printObjects = (objectIds: string[], indent: string) => {
+      const inList = new Set(objectIds);
+      const print = (object: UIObject, depth: string) => {
+        console.log(`${depth}• ${object.name} (${object.locators[0] ? `${object.locators[0].type}=${object.locators[0].value}` : 'no locator'})`);
+        this.getChildObjects(object.id)
+          .filter(child => inList.has(child.id))
+          .forEach(child => print(child, depth + '    '));
+      };
+      objectIds
+        .map(id => this.repository.objects[id])
+        .filter(object => object && !(object.parentObject && inList.has(object.parentObject)))
+        .forEach(object => print(object, indent));
+    };
+
+    const printFolder = (folder: ObjectFolder, indent: string, seen: Set<string>) => {
+      if (seen.has(folder.id)) {
+        return;
+      }
+      seen.add(folder.id);
+      console.log(`${indent}📁 ${folder.name}`);
+      this.getSubFolders(folder.id).forEach(subFolder => printFolder(subFolder, indent + '  ', seen));
+      printObjects(folder.objects, indent + '  ');
+    };
+
+    console.log(`\n🗂️  ${this.repository.name}`);
+    const seen = new Set<string>();
+    this.getRootFolders().forEach(folder => printFolder(folder, '  ', seen));
+
+    const filed = new Set(Object.values(this.repository.folders).flatMap(folder => folder.objects));
+    printObjects(Object.keys(this.repository.objects).filter(id => !filed.has(id)), '  ');
+    console.log('');
+  }
+
   /**
    * Add object to folder
    */
@@ -219,6 +509,23 @@ export class ObjectRepositoryManager {
     }
   }
 
+  /**
+   * Folder IDs below a folder, at any depth
+   */
+  getFolderDescendants(folderId: string): string[] {
+    const descendants: string[] = [];
+    const walk = (id: string) => {
+      for (const subFolder of this.repository.folders[id]?.subFolders || []) {
+        if (!descendants.includes(subFolder)) {
+          descendants.push(subFolder);
+          walk(subFolder);
+        }
+      }
+    };
+    walk(folderId);
+    return descendants;
+  }
+
   /**
    * List all objects in a folder
    */
@@ -242,29 +549,137 @@ export class ObjectRepositoryManager {
   }
 
   /**
-   * Import repository from file
+   * Import repository from file. With `merge`, the imported objects are
+   * three-way merged into this repository (see planImport); conflicts are
+   * resolved with `policy`, otherwise the import is refused.
    */
-  importRepository(importPath: string, merge: boolean = false): void {
-    const content = fs.readFileSync(importPath, 'utf-8');
-    const imported: Repository = JSON.parse(content);
-
+  importRepository(importPath: string, merge: boolean = false, options: { basePath?: string; policy?: MergePolicy } = {}): MergeResult | undefined {
     if (merge) {
-      // Merge imported objects with existing
-      this.repository.objects = {
-        ...this.repository.objects,
-        ...imported.objects
-      };
-      this.repository.folders = {
-        ...this.repository.folders,
-        ...imported.folders
-      };
-    } else {
-      // Replace entire repository
-      this.repository = imported;
+      const result = this.planImport(importPath, options.basePath);
+      if (options.policy) {
+        resolveAllConflicts(result, options.policy);
+      }
+      const conflicts = unresolvedConflicts(result);
+      if (conflicts.length > 0) {
+        throw new Error(`${conflicts.length} merge conflict(s) in ${conflicts.map(conflict => `${conflict.objectName} ${conflict.field}`).join(', ')} - resolve them in the editor or pass a policy (ours / theirs)`);
+      }
+      this.applyMerge(result, importPath);
+      return result;
     }
 
+    const content = fs.readFileSync(importPath, 'utf-8');
+    const previous = { ...this.repository.objects };
+
+    // Replace entire repository
+    this.repository = JSON.parse(content);
+
     this.save();
+    this.recordImport(previous, importPath);
     console.log(`📥 Repository imported from: ${importPath}`);
+    return undefined;
+  }
+
+  /**
+   * Three-way merge of an imported repository into this one, without
+   * saving. `basePath` is the common ancestor, e.g. the repository file at
+   * the git merge base; without it every difference is a conflict.
+   */
+  planImport(importPath: string, basePath?: string): MergeResult {
+    const theirs: Repository = JSON.parse(fs.readFileSync(importPath, 'utf-8'));
+    const base: Repository | undefined = basePath ? JSON.parse(fs.readFileSync(basePath, 'utf-8')) : undefined;
+    return mergeRepositories(base, this.repository, theirs);
+  }
+
+  /**
+   * Save a merge from planImport once all its conflicts are resolved
+   */
+  applyMerge(result: MergeResult, importPath: string): void {
+    const conflicts = unresolvedConflicts(result);
+    if (conflicts.length > 0) {
+      throw new Error(`${conflicts.length} merge conflict(s) are not resolved`);
+    }
+
+    const previous = { ...this.repository.objects };
+    this.repository.objects = result.merged.objects;
+    this.repository.folders = result.merged.folders;
+
+    this.save();
+    this.recordImport(previous, importPath);
+    console.log(`📥 Repository merged from: ${importPath} (${result.added.length} added, ${result.updated.length} updated, ${result.deleted.length} deleted, ${result.conflicts.length} conflict(s) resolved)`);
+  }
+
+  private recordImport(previous: Record<string, UIObject>, importPath: string): void {
+    for (const id of new Set([...Object.keys(previous), ...Object.keys(this.repository.objects)])) {
+      const before = previous[id];
+      const after = this.repository.objects[id];
+      this.recordChange(!before ? 'create' : !after ? 'delete' : 'update', before, after, `imported from ${importPath}`, 'import');
+    }
+  }
+
+  /**
+   * Tag the changes recorded in the history from now on
+   * (editor, healing, import, recorder, cli; default api)
+   */
+  setChangeSource(source: ChangeSource): void {
+    this.changeSource = source;
+  }
+
+  /**
+   * Recorded changes, oldest first - of one object or of the whole repository
+   */
+  getHistory(objectId?: string): ObjectChange[] {
+    return this.history.load(objectId);
+  }
+
+  /**
+   * Restore an object as it was after the given history version.
+   * Works for deleted objects too.
+   */
+  rollbackObject(objectId: string, version: number): UIObject {
+    const change = this.history.load(objectId).find(entry => entry.version === version);
+    if (!change) {
+      throw new Error(`Version ${version} not found in the history of ${objectId}`);
+    }
+    if (!change.after) {
+      throw new Error(`Version ${version} deleted the object - roll back to an earlier version`);
+    }
+
+    const before = this.repository.objects[objectId];
+    const existing = this.getObjectByName(change.after.name);
+    if (existing && existing.id !== objectId) {
+      throw new Error(`Another object is already named "${change.after.name}" (${existing.id})`);
+    }
+
+    this.repository.objects[objectId] = { ...this.snapshot(change.after), updatedAt: Date.now() };
+    this.save();
+    this.recordChange('rollback', before, this.repository.objects[objectId], `to version ${version}`);
+
+    console.log(`⏪ ${change.after.name} rolled back to version ${version}`);
+    return this.repository.objects[objectId];
+  }
+
+  /**
+   * Append a change to the history. Updates that change nothing are skipped.
+   */
+  private recordChange(action: ChangeAction, before: UIObject | undefined, after: UIObject | undefined, note?: string, source: ChangeSource = this.changeSource): void {
+    if (before && after && JSON.stringify({ ...before, updatedAt: 0 }) === JSON.stringify({ ...after, updatedAt: 0 })) {
+      return;
+    }
+
+    const object = (after || before)!;
+    this.history.record({
+      objectId: object.id,
+      objectName: object.name,
+      source,
+      action,
+      before: before && this.snapshot(before),
+      after: after && this.snapshot(after),
+      note
+    });
+  }
+
+  private snapshot(object: UIObject): UIObject {
+    return JSON.parse(JSON.stringify(object));
   }
 
   /**
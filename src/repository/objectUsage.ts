@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A test step that references a repository object by objectId
+ */
+export interface ObjectUsage {
+  objectId: string;
+  testFile: string;
+  testName: string;
+  actionId: string;
+  step: string;            // 1-based step number, "2.1" inside if/while blocks
+  description?: string;
+  suites: string[];        // Names of the suites that run the test file
+}
+
+export interface UsageScanOptions {
+  testDirs?: string[];     // Directories with test case files (default ./recordings)
+  suitesDir?: string;      // Suite definitions and suite test folders (default ./test-suites)
+}
+
+// Directories that never contain test cases
+const SKIPPED_DIRS = new Set(['node_modules', 'screenshots', 'traces', 'videos', 'reports']);
+
+/**
+ * Index from object IDs to the steps that use them, across all test case
+ * files and suites
+ */
+export class ObjectUsageIndex {
+  private testDirs: string[];
+  private suitesDir: string;
+  private usages: Map<string, ObjectUsage[]> = new Map();
+  private testFiles: string[] = [];
+
+  constructor(options: UsageScanOptions = {}) {
+    this.testDirs = options.testDirs || ['./recordings'];
+    this.suitesDir = options.suitesDir || './test-suites';
+  }
+
+  /**
+   * Scan test case files and suites
+   */
+  build(): this {
+    this.usages.clear();
+    this.testFiles = [];
+
+    const files = [...this.testDirs, this.suitesDir].flatMap(dir => this.findJsonFiles(dir));
+    const documents = new Map<string, any>();
+    for (const file of new Set(files)) {
+      try {
+        documents.set(file, JSON.parse(fs.readFileSync(file, 'utf-8')));
+      } catch {
+        // Not JSON we can read - not a test case
+      }
+    }
+
+    const suites = this.suiteMembership(documents);
+    for (const [file, document] of documents) {
+      if (!Array.isArray(document.actions)) {
+        continue;
+      }
+      this.testFiles.push(file);
+      this.indexActions(document.actions, {
+        testFile: file,
+        testName: document.name || path.basename(file, '.json'),
+        suites: suites.get(file) || []
+      });
+    }
+
+    return this;
+  }
+
+  getUsages(objectId: string): ObjectUsage[] {
+    return this.usages.get(objectId) || [];
+  }
+
+  isUsed(objectId: string): boolean {
+    return this.getUsages(objectId).length > 0;
+  }
+
+  /**
+   * IDs of all referenced objects, including ones missing from the repository
+   */
+  getReferencedObjectIds(): string[] {
+    return [...this.usages.keys()];
+  }
+
+  getTestFiles(): string[] {
+    return [...this.testFiles];
+  }
+
+  /**
+   * Point every step that uses one of `fromIds` at `toId`.
+   * Returns the number of steps updated.
+   */
+  repointSteps(fromIds: string[], toId: string): number {
+    return this.updateSteps(fromIds, action => {
+      action.objectId = toId;
+      return true;
+    });
+  }
+
+  /**
+   * Update step descriptions that quote the object's old name
+   * (e.g. Click on "Login Button"). Returns the number of steps updated.
+   */
+  renameInSteps(objectId: string, oldName: string, newName: string): number {
+    return this.updateSteps([objectId], action => {
+      const quoted = `"${oldName}"`;
+      if (!action.description?.includes(quoted)) {
+        return false;
+      }
+      action.description = action.description.split(quoted).join(`"${newName}"`);
+      return true;
+    });
+  }
+
+  /**
+   * Apply `update` to the steps that use the given objects and save the
+   * changed test files. The index is rebuilt afterwards.
+   */
+  private updateSteps(objectIds: string[], update: (action: any) => boolean): number {
+    const files = new Set(objectIds.flatMap(id => this.getUsages(id).map(usage => usage.testFile)));
+    let updated = 0;
+
+    for (const file of files) {
+      const testCase = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      let changed = 0;
+      this.forEachAction(testCase.actions, action => {
+        if (objectIds.includes(action.objectId) && update(action)) {
+          changed++;
+        }
+      });
+
+      if (changed > 0) {
+        testCase.updatedAt = Date.now();
+        fs.writeFileSync(file, JSON.stringify(testCase, null, 2));
+        console.log(`✏️  ${file}: ${changed} step(s) updated`);
+        updated += changed;
+      }
+    }
+
+    this.build();
+    return updated;
+  }
+
+  private indexActions(actions: any[], test: { testFile: string; testName: string; suites: string[] }, prefix: string = ''): void {
+    actions.forEach((action, index) => {
+      const step = `${prefix}${index + 1}`;
+      if (action.objectId) {
+        const usages = this.usages.get(action.objectId) || [];
+        usages.push({
+          objectId: action.objectId,
+          ...test,
+          actionId: action.id,
+          step,
+          description: action.description
+        });
+        this.usages.set(action.objectId, usages);
+      }
+
+      // Steps nested in if/while blocks
+      const nested = [...(action.steps || []), ...(action.elseSteps || [])];
+      if (nested.length > 0) {
+        this.indexActions(nested, test, `${step}.`);
+      }
+    });
+  }
+
+  private forEachAction(actions: any[], visit: (action: any) => void): void {
+    for (const action of actions || []) {
+      visit(action);
+      this.forEachAction([...(action.steps || []), ...(action.elseSteps || [])], visit);
+    }
+  }
+
+  /**
+   * Test file -> names of the suites that list it. Folder suites without a
+   * testCases list run every file in their tests/ folder.
+   */
+  private suiteMembership(documents: Map<string, any>): Map<string, string[]> {
+    const membership = new Map<string, string[]>();
+    const add = (file: string, suite: string) => {
+      const suites = membership.get(file) || [];
+      if (!suites.includes(suite)) {
+        suites.push(suite);
+      }
+      membership.set(file, suites);
+    };
+
+    for (const [file, document] of documents) {
+      if (Array.isArray(document.actions)) {
+        continue;
+      }
+
+      const isFolderSuite = path.basename(file) === 'suite-config.json';
+      const name = document.name || (isFolderSuite ? path.basename(path.dirname(file)) : path.basename(file, '.json'));
+
+      if (Array.isArray(document.testCases) && document.testCases.length > 0) {
+        for (const entry of document.testCases) {
+          add(path.resolve(typeof entry === 'string' ? entry : entry.path), name);
+        }
+      } else if (isFolderSuite) {
+        const testsDir = path.join(path.dirname(file), 'tests');
+        for (const testFile of this.findJsonFiles(testsDir)) {
+          add(testFile, name);
+        }
+      }
+    }
+
+    return membership;
+  }
+
+  private findJsonFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.resolve(dir, entry.name);
+      if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name)) {
+        files.push(...this.findJsonFiles(entryPath));
+      } else if (entry.isFile() && entry.name.endsWith('.json')) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+}
@@ -0,0 +1,107 @@
+import { ElementLocator } from '../types';
+import { UIObject } from './objectRepository';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * What changed an object: the interactive editor, self-healing write-backs,
+ * repository imports, the web recorder, repo:* commands or other code
+ */
+export type ChangeSource = 'editor' | 'healing' | 'import' | 'recorder' | 'cli' | 'api';
+
+export type ChangeAction = 'create' | 'update' | 'delete' | 'merge' | 'rollback';
+
+export interface ObjectChange {
+  objectId: string;
+  objectName: string;
+  version: number;             // 1-based, per object
+  timestamp: number;
+  source: ChangeSource;
+  user: string;
+  action: ChangeAction;
+  oldLocators?: ElementLocator[];
+  newLocators?: ElementLocator[];
+  before?: UIObject;           // Full object before the change (absent on create)
+  after?: UIObject;            // Full object after the change (absent on delete)
+  note?: string;
+}
+
+/**
+ * Append-only log of object changes, one JSON line per change,
+ * stored next to the repository file (object-repository.history.jsonl)
+ */
+export class RepositoryHistory {
+  private filePath: string;
+  private versions: Map<string, number> | null = null; // Latest version per object, read once
+
+  constructor(repositoryPath: string) {
+    this.filePath = repositoryPath.replace(/\.json$/, '') + '.history.jsonl';
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  record(change: Omit<ObjectChange, 'version' | 'timestamp' | 'user' | 'oldLocators' | 'newLocators'>): ObjectChange {
+    const entry: ObjectChange = {
+      objectId: change.objectId,
+      objectName: change.objectName,
+      version: this.latestVersion(change.objectId) + 1,
+      timestamp: Date.now(),
+      source: change.source,
+      user: currentUser(),
+      action: change.action,
+      oldLocators: change.before?.locators,
+      newLocators: change.after?.locators,
+      before: change.before,
+      after: change.after,
+      note: change.note
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    this.versions!.set(entry.objectId, entry.version);
+    return entry;
+  }
+
+  private latestVersion(objectId: string): number {
+    if (!this.versions) {
+      this.versions = new Map();
+      for (const change of this.load()) {
+        this.versions.set(change.objectId, Math.max(this.versions.get(change.objectId) || 0, change.version));
+      }
+    }
+    return this.versions.get(objectId) || 0;
+  }
+
+  /**
+   * Changes oldest first, optionally of one object. Unreadable lines are skipped.
+   */
+  load(objectId?: string): ObjectChange[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    return fs.readFileSync(this.filePath, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim())
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as ObjectChange];
+        } catch {
+          console.warn(`⚠️ Skipping unreadable history line: ${line.substring(0, 60)}...`);
+          return [];
+        }
+      })
+      .filter(change => !objectId || change.objectId === objectId);
+  }
+}
+
+function currentUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
+}
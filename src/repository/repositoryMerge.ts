@@ -0,0 +1,232 @@
+import { Repository, UIObject, ObjectFolder } from './objectRepository';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * ours: keep the local value, theirs: take the imported value
+ */
+export type MergePolicy = 'ours' | 'theirs';
+
+/**
+ * Both sides changed the same field of an object differently.
+ * field is a UIObject field, "attributes.<name>", or "object" when one
+ * side deleted the object and the other edited it.
+ */
+export interface MergeConflict {
+  objectId: string;
+  objectName: string;
+  field: string;
+  base?: any;
+  ours?: any;
+  theirs?: any;
+  resolution?: MergePolicy;
+}
+
+export interface MergeResult {
+  merged: Repository;
+  added: string[];          // Object IDs added from theirs
+  updated: string[];        // Object IDs that took changes from theirs
+  deleted: string[];        // Object IDs deleted in theirs
+  conflicts: MergeConflict[];
+  hasBase: boolean;
+}
+
+// Object fields merged one by one (attributes are merged per attribute)
+const MERGED_FIELDS: Array<keyof UIObject> = [
+  'name', 'description', 'platform', 'locators', 'fingerprint', 'screenshot', 'tags', 'parentObject'
+];
+
+/**
+ * Three-way merge of an imported repository (theirs) into the local one
+ * (ours). A field changed on one side only is taken from that side; a
+ * field changed differently on both sides is a conflict. Without a base
+ * every differing field of an object on both sides is a conflict.
+ * Conflicting fields keep our value until resolved.
+ */
+export function mergeRepositories(base: Repository | undefined, ours: Repository, theirs: Repository): MergeResult {
+  const merged: Repository = clone(ours);
+  const result: MergeResult = { merged, added: [], updated: [], deleted: [], conflicts: [], hasBase: !!base };
+
+  const ids = new Set([...Object.keys(ours.objects), ...Object.keys(theirs.objects)]);
+  for (const id of ids) {
+    const baseObject = base?.objects[id];
+    const ourObject = ours.objects[id];
+    const theirObject = theirs.objects[id];
+
+    if (!ourObject) {
+      // Added by them, or deleted by us and still present (or edited) on their side
+      if (!baseObject) {
+        merged.objects[id] = clone(theirObject);
+        result.added.push(id);
+      } else if (!same(baseObject, theirObject)) {
+        result.conflicts.push({ objectId: id, objectName: theirObject.name, field: 'object', base: baseObject, ours: undefined, theirs: theirObject });
+      }
+      continue;
+    }
+
+    if (!theirObject) {
+      // Deleted by them (only known with a base)
+      if (baseObject) {
+        if (same(baseObject, ourObject)) {
+          delete merged.objects[id];
+          result.deleted.push(id);
+        } else {
+          result.conflicts.push({ objectId: id, objectName: ourObject.name, field: 'object', base: baseObject, ours: ourObject, theirs: undefined });
+        }
+      }
+      continue;
+    }
+
+    const fields: Array<[string, any, any, any]> = MERGED_FIELDS.map(field =>
+      [field, baseObject?.[field], ourObject[field], theirObject[field]]
+    );
+    const attributeNames = new Set([...Object.keys(ourObject.attributes || {}), ...Object.keys(theirObject.attributes || {})]);
+    for (const name of attributeNames) {
+      fields.push([`attributes.${name}`, baseObject?.attributes?.[name], ourObject.attributes?.[name], theirObject.attributes?.[name]]);
+    }
+
+    let changed = false;
+    for (const [field, baseValue, ourValue, theirValue] of fields) {
+      if (same(ourValue, theirValue)) {
+        continue;
+      }
+      if (baseObject && same(baseValue, ourValue)) {
+        setField(merged.objects[id], field, clone(theirValue));
+        changed = true;
+      } else if (!baseObject || !same(baseValue, theirValue)) {
+        result.conflicts.push({ objectId: id, objectName: ourObject.name, field, base: baseValue, ours: ourValue, theirs: theirValue });
+      }
+    }
+
+    if (changed) {
+      merged.objects[id].updatedAt = Math.max(ourObject.updatedAt, theirObject.updatedAt);
+      result.updated.push(id);
+    }
+  }
+
+  merged.folders = mergeFolders(ours.folders, theirs.folders, merged.objects);
+  return result;
+}
+
+/**
+ * Apply a resolution to a conflict in the merged repository
+ */
+export function resolveConflict(result: MergeResult, conflict: MergeConflict, resolution: MergePolicy): void {
+  conflict.resolution = resolution;
+  const value = clone(resolution === 'ours' ? conflict.ours : conflict.theirs);
+
+  if (conflict.field === 'object') {
+    if (value) {
+      result.merged.objects[conflict.objectId] = value;
+    } else {
+      delete result.merged.objects[conflict.objectId];
+    }
+    return;
+  }
+
+  const object = result.merged.objects[conflict.objectId];
+  setField(object, conflict.field, value);
+  object.updatedAt = Date.now();
+}
+
+export function resolveAllConflicts(result: MergeResult, policy: MergePolicy): void {
+  result.conflicts
+    .filter(conflict => !conflict.resolution)
+    .forEach(conflict => resolveConflict(result, conflict, policy));
+}
+
+export function unresolvedConflicts(result: MergeResult): MergeConflict[] {
+  return result.conflicts.filter(conflict => !conflict.resolution);
+}
+
+/**
+ * Short text for a conflicting value: locators as type=value, deleted objects as (deleted)
+ */
+export function describeMergeValue(field: string, value: any): string {
+  if (value === undefined) {
+    return field === 'object' ? '(deleted)' : '(none)';
+  }
+  if (field === 'object') {
+    return `${value.name}: ${value.locators.map((locator: any) => `${locator.type}=${locator.value}`).join(', ')}`;
+  }
+  if (field === 'locators') {
+    return value.map((locator: any) => `${locator.type}=${locator.value}`).join(', ');
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Console summary of a merge with every conflict
+ */
+export function printMergeReport(result: MergeResult): void {
+  console.log(`\n🔀 Repository merge${result.hasBase ? '' : ' (no base - every difference is a conflict)'}`);
+  console.log(`   Added: ${result.added.length}, updated: ${result.updated.length}, deleted: ${result.deleted.length}, conflicts: ${result.conflicts.length}`);
+
+  result.conflicts.forEach((conflict, index) => {
+    const resolution = conflict.resolution ? ` -> ${conflict.resolution}` : '';
+    console.log(`\n  ⚔️  #${index + 1} ${conflict.objectName} (${conflict.objectId}) - ${conflict.field}${resolution}`);
+    if (result.hasBase) {
+      console.log(`     base:   ${describeMergeValue(conflict.field, conflict.base)}`);
+    }
+    console.log(`     ours:   ${describeMergeValue(conflict.field, conflict.ours)}`);
+    console.log(`     theirs: ${describeMergeValue(conflict.field, conflict.theirs)}`);
+  });
+  console.log('');
+}
+
+export function saveMergeReport(result: MergeResult, outputPath: string): void {
+  const { merged, ...report } = result;
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(report, null, 2));
+  console.log(`📄 Conflict report saved: ${outputPath}`);
+}
+
+/**
+ * Folders of both sides; object lists are combined and limited to objects
+ * that survived the merge
+ */
+function mergeFolders(ours: Record<string, ObjectFolder>, theirs: Record<string, ObjectFolder>, objects: Record<string, UIObject>): Record<string, ObjectFolder> {
+  const folders: Record<string, ObjectFolder> = clone(ours);
+  for (const [id, folder] of Object.entries(theirs)) {
+    if (!folders[id]) {
+      folders[id] = clone(folder);
+      continue;
+    }
+    folders[id].objects = [...new Set([...folders[id].objects, ...folder.objects])];
+    if (folder.subFolders) {
+      folders[id].subFolders = [...new Set([...(folders[id].subFolders || []), ...folder.subFolders])];
+    }
+  }
+
+  for (const folder of Object.values(folders)) {
+    folder.objects = folder.objects.filter(objectId => objects[objectId]);
+  }
+  return folders;
+}
+
+function setField(object: UIObject, field: string, value: any): void {
+  if (field.startsWith('attributes.')) {
+    const name = field.substring('attributes.'.length);
+    object.attributes = { ...object.attributes };
+    if (value === undefined) {
+      delete object.attributes[name];
+    } else {
+      object.attributes[name] = value;
+    }
+    return;
+  }
+
+  if (value === undefined) {
+    delete (object as any)[field];
+  } else {
+    (object as any)[field] = value;
+  }
+}
+
+function same(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
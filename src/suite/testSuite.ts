@@ -1,15 +1,37 @@
-import { TestCase, ExecutionResult } from '../types';
-import { TestExecutor } from '../executor/testExecutor';
+import { TestCase, ExecutionResult, BrowserName, PlatformType } from '../types';
+import { TestExecutor, ExecutorOptions } from '../executor/testExecutor';
 import { Reporter } from '../reporting/reporter';
+import { RunHistory } from '../reporting/runHistory';
+import { browserManager } from '../browser/browserManager';
+import { collectHealingSuggestions, applyHealingSuggestions } from '../healing/healingUpdates';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * A suite entry: either a test case file path or an object binding the
+ * test case to a CSV/JSON dataset (the test then runs once per row)
+ */
+export interface SuiteTestEntry {
+  path: string;
+  dataset?: string;
+}
+
+export interface SuiteExecutionOptions extends ExecutorOptions {
+  workers?: number;        // Run test cases in parallel, each worker in its own BrowserContext
+  browsers?: BrowserName[]; // Browser matrix: run every test case once per engine
+  junit?: string;           // Also write a JUnit XML report to this path
+  history?: string | false; // Run history file (default ./reports/history.jsonl), false to skip recording
+}
+
 export interface TestSuite {
   id: string;
   name: string;
   description: string;
-  testCases: string[]; // Array of test case file paths
+  testCases: Array<string | SuiteTestEntry>; // Test case file paths or entries
   tags?: string[];
+  variables?: Record<string, any>; // Suite-level variables, referenced as ${name}
+  environment?: string;            // Default environment (environments/<name>.json)
+  browsers?: BrowserName[];        // Default browser matrix for web tests
   createdAt: number;
   updatedAt: number;
 }
@@ -27,7 +49,7 @@ export class TestSuiteManager {
   /**
    * Create a new test suite
    */
-  createSuite(name: string, description: string, testCaseFiles: string[], tags?: string[]): TestSuite {
+  createSuite(name: string, description: string, testCaseFiles: Array<string | SuiteTestEntry>, tags?: string[]): TestSuite {
     const suite: TestSuite = {
       id: `suite-${Date.now()}`,
       name,
@@ -111,7 +133,7 @@ export class TestSuiteManager {
   /**
    * Add test cases to an existing suite
    */
-  addTestCases(suiteId: string, testCaseFiles: string[]): TestSuite {
+  addTestCases(suiteId: string, testCaseFiles: Array<string | SuiteTestEntry>): TestSuite {
     const suite = this.loadSuite(suiteId);
     suite.testCases.push(...testCaseFiles);
     suite.updatedAt = Date.now();
@@ -124,7 +146,7 @@ export class TestSuiteManager {
    */
   removeTestCases(suiteId: string, testCaseFiles: string[]): TestSuite {
     const suite = this.loadSuite(suiteId);
-    suite.testCases = suite.testCases.filter(tc => !testCaseFiles.includes(tc));
+    suite.testCases = suite.testCases.filter(tc => !testCaseFiles.includes(this.toEntry(tc).path));
     suite.updatedAt = Date.now();
     this.saveSuite(suite);
     return suite;
@@ -133,51 +155,182 @@ export class TestSuiteManager {
   /**
    * Execute an entire test suite
    */
-  async executeSuite(suiteId: string, reportPath?: string, loopCount: number = 1): Promise<ExecutionResult[]> {
+  async executeSuite(
+    suiteId: string,
+    reportPath?: string,
+    loopCount: number = 1,
+    options: SuiteExecutionOptions = {}
+  ): Promise<ExecutionResult[]> {
     const suite = this.loadSuite(suiteId);
+    const { workers, browsers: browserOption, junit, history, ...executorOptions } = options;
+    const browsers = browserOption?.length ? browserOption : suite.browsers || [];
+
+    // One job per test case per suite loop; results are merged back in this order
+    const jobs: Array<{ entry: SuiteTestEntry; loop: number; index: number }> = [];
+    for (let loop = 0; loop < loopCount; loop++) {
+      suite.testCases.forEach((testCase, index) => jobs.push({ entry: this.toEntry(testCase), loop, index }));
+    }
+    const workerCount = Math.max(1, Math.min(workers || 1, jobs.length));
+    // Parallel workers would write the repository at the same time - auto
+    // healing is applied once after the suite instead
+    const deferHealingWrites = executorOptions.healing === 'auto' && workerCount > 1;
 
     console.log(`\n${'='.repeat(60)}`);
     console.log(`🧪 Executing Test Suite: ${suite.name}`);
     console.log(`📝 Description: ${suite.description}`);
     console.log(`📊 Test Cases: ${suite.testCases.length}`);
     console.log(`🔁 Loop Count: ${loopCount}`);
+    if (workerCount > 1) {
+      console.log(`👷 Workers: ${workerCount} (isolated browser contexts)`);
+    }
+    if (browsers.length > 0) {
+      console.log(`🌐 Browsers: ${browsers.join(', ')}`);
+    }
     console.log(`${'='.repeat(60)}\n`);
 
-    const executor = new TestExecutor();
+    // All workers and browsers of this run share one artifacts folder
+    const runName = executorOptions.artifacts?.runName || `${suite.id}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    const createExecutor = (isolatedContext: boolean) => new TestExecutor({
+      ...executorOptions,
+      environment: options.environment || suite.environment,
+      suiteVariables: { ...suite.variables, ...options.suiteVariables },
+      artifacts: { ...executorOptions.artifacts, runName },
+      isolatedContext,
+      deferHealingWrites
+    });
     const reporter = new Reporter();
+    let jobResults: ExecutionResult[][] = [];
+    let environmentName: string | undefined;
 
-    const results: ExecutionResult[] = [];
+    const runJob = async (executor: TestExecutor, jobIndex: number, worker?: number) => {
+      const { entry, loop, index } = jobs[jobIndex];
+      const prefix = worker !== undefined ? `[W${worker + 1}] ` : '';
 
-    // Loop through entire suite
-    for (let loop = 0; loop < loopCount; loop++) {
-      if (loopCount > 1) {
+      if (loopCount > 1 && index === 0 && worker === undefined) {
         console.log(`\n${'─'.repeat(60)}`);
         console.log(`🔄 Suite Loop ${loop + 1}/${loopCount}`);
         console.log(`${'─'.repeat(60)}\n`);
       }
 
-      for (let i = 0; i < suite.testCases.length; i++) {
-        const testCaseFile = suite.testCases[i];
-        console.log(`\n[${i + 1}/${suite.testCases.length}] Executing: ${path.basename(testCaseFile)}`);
+      const dataset = entry.dataset ? ` (dataset: ${entry.dataset})` : '';
+      console.log(`\n${prefix}[${index + 1}/${suite.testCases.length}] Executing: ${path.basename(entry.path)}${dataset}`);
+      const startTime = Date.now();
 
-        try {
-          const result = await executor.executeFromFile(testCaseFile);
-          results.push(result);
-          reporter.addResult(result);
+      try {
+        jobResults[jobIndex] = await executor.executeAllFromFile(entry.path, 1, entry.dataset);
 
+        for (const result of jobResults[jobIndex]) {
           const status = result.status === 'passed' ? '✅' : '❌';
-          console.log(`${status} ${result.status.toUpperCase()} (${result.duration}ms)`);
-        } catch (error: any) {
-          console.error(`❌ ERROR: ${error.message}`);
+          console.log(`${prefix}${status} ${result.name || result.testCaseId}: ${result.status.toUpperCase()} (${result.duration}ms)`);
         }
+      } catch (error: any) {
+        // Keep the test in the results, JUnit report and history as failed
+        console.error(`${prefix}❌ ERROR: ${error.message}`);
+        const endTime = Date.now();
+        jobResults[jobIndex] = [{
+          testCaseId: path.basename(entry.path, '.json'),
+          name: path.basename(entry.path),
+          status: 'failed',
+          startTime,
+          endTime,
+          duration: endTime - startTime,
+          steps: [],
+          error: error.message
+        }];
+      }
+    };
+
+    const runPass = async (): Promise<ExecutionResult[]> => {
+      jobResults = jobs.map(() => []);
+
+      if (workerCount === 1) {
+        const executor = createExecutor(false);
+        environmentName = executor.getEnvironmentName();
+
+        for (let jobIndex = 0; jobIndex < jobs.length; jobIndex++) {
+          await runJob(executor, jobIndex);
+        }
+      } else {
+        // Only web tests get isolated browser contexts. Desktop and mobile tests
+        // share the mouse, keyboard or device and run one by one afterwards.
+        const parallelJobs = jobs.map((_, jobIndex) => jobIndex).filter(jobIndex => this.isWebTest(jobs[jobIndex].entry));
+        const serialJobs = jobs.map((_, jobIndex) => jobIndex).filter(jobIndex => !parallelJobs.includes(jobIndex));
+
+        // Workers pull the next job from a shared queue until it is empty
+        let nextJob = 0;
+
+        await Promise.all(Array.from({ length: Math.min(workerCount, parallelJobs.length) }, async (_, worker) => {
+          const executor = createExecutor(true);
+          environmentName = executor.getEnvironmentName();
+
+          try {
+            while (nextJob < parallelJobs.length) {
+              await runJob(executor, parallelJobs[nextJob++], worker);
+            }
+          } finally {
+            await executor.dispose();
+          }
+        }));
+
+        if (serialJobs.length > 0) {
+          console.log(`\n🔂 Running ${serialJobs.length} desktop/mobile test case(s) one at a time`);
+          const executor = createExecutor(false);
+          environmentName = executor.getEnvironmentName();
+          for (const jobIndex of serialJobs) {
+            await runJob(executor, jobIndex);
+          }
+        }
+      }
+
+      return jobResults.flat();
+    };
+
+    const results: ExecutionResult[] = [];
+
+    if (browsers.length === 0) {
+      results.push(...await runPass());
+    } else {
+      // Engines run one after another; each pass launches its own browser
+      const headless = browserManager.getLaunchOptions()?.headless;
+
+      for (const browser of browsers) {
+        console.log(`\n${'═'.repeat(60)}`);
+        console.log(`🌐 Browser: ${browser}`);
+        console.log(`${'═'.repeat(60)}`);
+
+        await browserManager.closeBrowser();
+        browserManager.configure({ browser, headless });
+
+        const passResults = await runPass();
+        passResults.forEach(result => (result.browser = browser));
+        results.push(...passResults);
+      }
+
+      await browserManager.closeBrowser();
+    }
+
+    if (deferHealingWrites) {
+      const suggestions = collectHealingSuggestions(results);
+      if (suggestions.length > 0) {
+        console.log(`\n🩹 Auto-healing: writing ${suggestions.length} healed locator(s) back`);
+        applyHealingSuggestions(suggestions, executorOptions.repository);
       }
     }
 
+    reporter.addResults(results);
+
     // Generate report
     reporter.setMetadata('suite_id', suite.id);
     reporter.setMetadata('suite_name', suite.name);
     reporter.setMetadata('suite_description', suite.description);
     reporter.setMetadata('loop_count', loopCount);
+    reporter.setMetadata('workers', workerCount);
+    if (browsers.length > 0) {
+      reporter.setMetadata('browsers', browsers.join(', '));
+    }
+    if (environmentName) {
+      reporter.setMetadata('environment', environmentName);
+    }
 
     reporter.printConsoleSummary();
 
@@ -185,10 +338,41 @@ export class TestSuiteManager {
       reporter.saveJsonReport(reportPath);
       reporter.saveHtmlReport(reportPath.replace('.json', '.html'));
     }
+    if (junit) {
+      reporter.saveJUnitReport(junit, suite.name);
+    }
+    if (history !== false) {
+      new RunHistory(history).record({
+        suiteId: suite.id,
+        suiteName: suite.name,
+        environment: environmentName,
+        results
+      });
+    }
 
     return results;
   }
 
+  /**
+   * Whether a suite entry is a web test case. Unreadable files count as web
+   * tests; they fail on their own when run.
+   */
+  private isWebTest(entry: SuiteTestEntry): boolean {
+    try {
+      const testCase: TestCase = JSON.parse(fs.readFileSync(entry.path, 'utf-8'));
+      return !testCase.platform || testCase.platform === PlatformType.WEB;
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Normalize a suite entry to its object form
+   */
+  toEntry(testCase: string | SuiteTestEntry): SuiteTestEntry {
+    return typeof testCase === 'string' ? { path: testCase } : testCase;
+  }
+
   /**
    * Delete a test suite
    */
@@ -21,15 +21,60 @@ export enum ActionType {
   TAP = 'tap',
   SCROLL = 'scroll',
   PRESS_KEY = 'press_key',
+  STORE_VARIABLE = 'store_variable',
+  IF = 'if',
+  WHILE = 'while',
+  CALL = 'call',
   CUSTOM = 'custom'
 }
 
+/**
+ * Value of a STORE_VARIABLE action: read something from the page
+ * and save it as a run variable for later steps (${variable})
+ */
+export interface StoreVariableSpec {
+  variable: string;
+  source: 'text' | 'value' | 'attribute' | 'url';
+  attribute?: string;  // Attribute name when source is 'attribute'
+  pattern?: string;    // Optional regex - first capture group (or whole match) is stored
+}
+
+/**
+ * Value of a CALL action: run another test case file inline
+ */
+export interface CallStepSpec {
+  testCase: string;                // Path to the test case JSON (relative to the caller or cwd)
+  params?: Record<string, any>;    // Variables passed to the called test case
+}
+
 export interface ElementLocator {
   type: 'css' | 'xpath' | 'id' | 'name' | 'text' | 'accessibility_id' | 'coordinates' | 'placeholder' | 'role';
   value: string;
   fallbacks?: ElementLocator[];
 }
 
+/**
+ * What an element looked like when it was recorded - scored against the
+ * elements of the page when its locators stop matching
+ */
+export interface ElementFingerprint {
+  tagName: string;
+  attributes: Record<string, string>;
+  text: string;
+  position?: { x: number; y: number; width: number; height: number };
+  labels: string[];       // <label>, aria-labelledby and neighbouring text
+  domPath: string[];      // Tag names from <body> down to the element
+}
+
+/**
+ * One scored candidate of a fingerprint match (scores 0..1)
+ */
+export interface FingerprintMatch {
+  locator: ElementLocator;
+  score: number;
+  breakdown: Record<string, number>;  // Score per fingerprint component (tag, attributes, text, ...)
+}
+
 export interface TestAction {
   id: string;
   timestamp: number;
@@ -38,6 +83,7 @@ export interface TestAction {
   target?: ElementLocator;
   value?: any;
   objectId?: string;
+  fingerprint?: ElementFingerprint;  // Recorded element, used for similarity healing
   screenshot?: string;
   description?: string;
   metadata?: Record<string, any>;
@@ -52,10 +98,18 @@ export interface TestCase {
   createdAt: number;
   updatedAt: number;
   tags?: string[];
+  capabilities?: Record<string, any>;  // Appium capabilities for mobile test cases
+  appiumServer?: string;               // Appium server URL (default http://localhost:4723/)
 }
 
 export interface ExecutionResult {
   testCaseId: string;
+  name?: string;                  // Test case name (includes data row values for data-driven runs)
+  data?: Record<string, any>;     // Data row used for this run
+  browser?: BrowserName;          // Engine used in a cross-browser matrix run
+  healing?: HealingEvent[];       // Locators healed during this run
+  trace?: string;                 // Playwright trace (.zip) recorded for this run
+  video?: string;                 // Video (.webm) recorded for this run
   status: 'passed' | 'failed' | 'skipped';
   startTime: number;
   endTime: number;
@@ -63,7 +117,31 @@ export interface ExecutionResult {
   steps: StepResult[];
   screenshots?: string[];
   error?: string;
-  logs?: string[];
+  logs?: ExecutionLog[];
+}
+
+/**
+ * A broken locator that the self-healing engine replaced during a run
+ */
+export interface HealingEvent {
+  timestamp: number;
+  strategy: string;
+  originalLocator: ElementLocator;
+  healedLocator?: ElementLocator;
+  objectId?: string;      // Object repository entry the locator came from
+  objectName?: string;
+  testFile?: string;      // Test case file containing the step
+  actionId?: string;      // Step whose target was healed
+  confidence?: number;    // Fingerprint similarity of the healed element (0..1)
+  candidates?: FingerprintMatch[];  // Best scored candidates, highest first
+}
+
+export interface ExecutionLog {
+  timestamp: number;
+  level: 'info' | 'warn' | 'error' | 'success' | 'debug';
+  message: string;
+  stepIndex?: number;
+  iteration?: number;
 }
 
 export interface StepResult {
@@ -72,8 +150,29 @@ export interface StepResult {
   duration: number;
   error?: string;
   screenshot?: string;
+  domSnapshot?: string;  // Serialized DOM (web) or page source (mobile) at the end of the step
   action?: string;  // Action type (click, type, etc.)
   object?: string;  // Object/element description
+  resolved?: {      // Values after ${variable} interpolation
+    value?: any;
+    target?: string;
+    expected?: any;
+  };
+  children?: StepResult[];  // Nested results (blocks, called test cases)
+  healing?: StepHealing;    // How the element was found, for steps resolved through the healing engine
+}
+
+/**
+ * Self-healing per run: off (original locator only), suggest (heal during the
+ * run and report suggestions) or auto (also write healed locators back)
+ */
+export type HealingMode = 'off' | 'suggest' | 'auto';
+
+export interface StepHealing {
+  strategy: string;         // 'original' when the primary locator matched
+  locator: ElementLocator;  // Locator that found the element
+  healed: boolean;
+  confidence?: number;      // Fingerprint similarity when healed by fingerprint
 }
 
 export interface RecorderConfig {
@@ -84,12 +183,36 @@ export interface RecorderConfig {
   captureNetwork?: boolean;
 }
 
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+/**
+ * Direct browser launch for executions (no shared CDP browser server)
+ */
+export interface BrowserLaunchOptions {
+  browser?: BrowserName;
+  headless?: boolean;
+}
+
+/**
+ * When to keep a trace or video: never, always, or only for failed tests
+ */
+export type ArtifactMode = 'off' | 'on' | 'retain-on-failure';
+
+export interface ArtifactOptions {
+  trace?: ArtifactMode;
+  video?: ArtifactMode;
+  stepSnapshots?: ArtifactMode; // Screenshot + DOM snapshot per step (default: failed steps only)
+  outputDir?: string;           // Default: ./reports/artifacts
+  runName?: string;             // Per-run folder under outputDir (default: run-<timestamp>)
+}
+
 export interface WebRecorderConfig extends RecorderConfig {
-  browser?: 'chromium' | 'firefox' | 'webkit';
+  browser?: BrowserName;
   headless?: boolean;
   startUrl?: string;
   testName?: string;
   continueExisting?: boolean;
+  repositoryPath?: string;   // Shared object repository recorded elements are stored in
 }
 
 export interface DesktopRecorderConfig extends RecorderConfig {
@@ -0,0 +1,86 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ActionType, PlatformType } from '../src/types';
+import { EnhancedTestAction, EnhancedTestCase } from '../src/editor/testEditor';
+
+// nut-js needs a display; these tests only run desktop steps that never touch it
+const moduleLoader = require('module');
+const originalLoad = moduleLoader._load;
+moduleLoader._load = function (request: string, ...rest: any[]) {
+  return request === '@nut-tree-fork/nut-js' ? {} : originalLoad.call(this, request, ...rest);
+};
+const { TestExecutor } = require('../src/executor/testExecutor') as typeof import('../src/executor/testExecutor');
+moduleLoader._load = originalLoad;
+
+let dir: string;
+
+function step(type: ActionType, fields: Partial<EnhancedTestAction> = {}): EnhancedTestAction {
+  return { id: `${type}-${Math.random()}`, timestamp: 0, platform: PlatformType.DESKTOP, type, description: type, ...fields };
+}
+
+// IF step whose branch shows whether ${variable} equals value at that point
+function check(variable: string, value: any): EnhancedTestAction {
+  return step(ActionType.IF, {
+    condition: { type: 'variableEquals', variable, value },
+    steps: [step(ActionType.WAIT, { value: 0 })],
+    elseSteps: [step(ActionType.WAIT, { value: 0 })]
+  });
+}
+
+function testCase(name: string, actions: EnhancedTestAction[], variables?: Record<string, any>): EnhancedTestCase {
+  return { id: name, name, description: name, platform: PlatformType.DESKTOP, actions, variables, createdAt: 0, updatedAt: 0 };
+}
+
+async function run(main: EnhancedTestCase) {
+  const executor = new TestExecutor({ artifacts: { stepSnapshots: 'off' } });
+  return executor.executeTestCase(main);
+}
+
+before(() => {
+  // The executor logs every step; keep the test runner output readable
+  mock.method(console, 'log', () => {});
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-call-'));
+  fs.writeFileSync(path.join(dir, 'login.json'), JSON.stringify(testCase('login', [
+    check('user', 'bob'),
+    check('role', 'admin'),
+    check('caller', 'main')
+  ], { user: 'default', role: 'admin' })));
+});
+
+after(() => {
+  mock.restoreAll();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('call params override module variables and resolve in the caller', async () => {
+  const result = await run(testCase('main', [
+    step(ActionType.CALL, { value: { testCase: path.join(dir, 'login.json'), params: { user: '${name}' } } })
+  ], { name: 'bob', caller: 'main' }));
+
+  assert.equal(result.status, 'passed');
+  const branches = result.steps[0].children!.map(child => child.branch);
+  assert.deepEqual(branches, ['then', 'then', 'then']);
+});
+
+test('call params and module variables are gone after the call', async () => {
+  const result = await run(testCase('main', [
+    step(ActionType.CALL, { value: { testCase: path.join(dir, 'login.json'), params: { user: 'bob' } } }),
+    check('user', 'bob'),
+    check('role', 'admin')
+  ]));
+
+  assert.equal(result.status, 'passed');
+  assert.deepEqual(result.steps.slice(1).map(s => s.branch), ['else', 'else']);
+});
+
+test('a call to a missing module fails the step', async () => {
+  const result = await run(testCase('main', [
+    step(ActionType.CALL, { value: { testCase: path.join(dir, 'missing.json') } })
+  ]));
+
+  assert.equal(result.status, 'failed');
+  assert.match(result.error!, /Called test case not found/);
+});
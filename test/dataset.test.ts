@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCsv, loadDataset, formatDataRow } from '../src/executor/dataset';
+
+test('parseCsv maps rows onto the header', () => {
+  assert.deepEqual(parseCsv('user,qty\nbob,3\nalice,5\n'), [
+    { user: 'bob', qty: '3' },
+    { user: 'alice', qty: '5' }
+  ]);
+});
+
+test('parseCsv handles quoted fields, escaped quotes and CRLF', () => {
+  const csv = '\uFEFFname,note\r\n"Smith, Bob","said ""hi"""\r\n"multi\nline",x\r\n';
+
+  assert.deepEqual(parseCsv(csv), [
+    { name: 'Smith, Bob', note: 'said "hi"' },
+    { name: 'multi\nline', note: 'x' }
+  ]);
+});
+
+test('parseCsv skips empty rows and fills missing values', () => {
+  const csv = '\n user , qty \n\nbob,3\n , \ncarol\n';
+
+  assert.deepEqual(parseCsv(csv), [
+    { user: 'bob', qty: '3' },
+    { user: 'carol', qty: '' }
+  ]);
+});
+
+test('parseCsv returns no rows for empty input or a header only', () => {
+  assert.deepEqual(parseCsv(''), []);
+  assert.deepEqual(parseCsv('\n\n'), []);
+  assert.deepEqual(parseCsv('user,qty'), []);
+});
+
+test('loadDataset reads CSV and JSON files from the base directories', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-dataset-'));
+  fs.writeFileSync(path.join(dir, 'users.csv'), 'user\nbob\n');
+  fs.writeFileSync(path.join(dir, 'users.json'), JSON.stringify([{ user: 'alice' }, 'raw']));
+  fs.writeFileSync(path.join(dir, 'rows.json'), JSON.stringify({ rows: [{ user: 'carol' }] }));
+  fs.writeFileSync(path.join(dir, 'bad.json'), JSON.stringify({ user: 'dave' }));
+
+  try {
+    assert.deepEqual(loadDataset('users.csv', [dir]), [{ user: 'bob' }]);
+    assert.deepEqual(loadDataset('users.json', ['/does/not/exist', dir]), [{ user: 'alice' }, { value: 'raw' }]);
+    assert.deepEqual(loadDataset(path.join(dir, 'rows.json')), [{ user: 'carol' }]);
+    assert.throws(() => loadDataset('bad.json', [dir]), /must be an array of rows/);
+    assert.throws(() => loadDataset('missing.csv', [dir]), /Dataset not found: missing\.csv/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('formatDataRow truncates long labels', () => {
+  assert.equal(formatDataRow({ user: 'bob', tags: ['a'] }), '[user=bob, tags=["a"]]');
+  assert.equal(formatDataRow({ text: 'x'.repeat(20) }, 10), '[text=xx...]');
+});
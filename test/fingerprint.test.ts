@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { scoreFingerprint } from '../src/healing/fingerprint';
+import { ElementFingerprint } from '../src/types';
+
+function fingerprint(fields: Partial<ElementFingerprint> = {}): ElementFingerprint {
+  return { tagName: 'button', attributes: {}, text: '', labels: [], domPath: [], ...fields };
+}
+
+const recorded = fingerprint({
+  attributes: { id: 'save', class: 'btn primary', style: 'color: red' },
+  text: 'Save',
+  labels: ['Save changes'],
+  position: { x: 0, y: 0, width: 10, height: 10 },
+  domPath: ['body', 'div', 'form', 'button']
+});
+
+test('an identical element scores 1 in every component', () => {
+  assert.deepEqual(scoreFingerprint(recorded, recorded), {
+    score: 1,
+    breakdown: { tag: 1, attributes: 1, text: 1, labels: 1, position: 1, domPath: 1 }
+  });
+});
+
+test('components missing from the recorded element are left out', () => {
+  const bare = fingerprint({ attributes: { style: 'color: red' } });
+
+  assert.deepEqual(scoreFingerprint(bare, recorded), { score: 1, breakdown: { tag: 1 } });
+  assert.deepEqual(scoreFingerprint(bare, fingerprint({ tagName: 'a' })), { score: 0, breakdown: { tag: 0 } });
+});
+
+test('components missing from the candidate score 0, except position', () => {
+  const { breakdown } = scoreFingerprint(recorded, fingerprint());
+
+  assert.deepEqual(breakdown, { tag: 1, attributes: 0, text: 0, labels: 0, domPath: 0 });
+});
+
+test('gives partial credit per component', () => {
+  const candidate = fingerprint({
+    attributes: { class: 'btn secondary' },
+    text: 'Save changes',
+    labels: ['Discard changes'],
+    position: { x: 200, y: 0, width: 10, height: 10 },
+    domPath: ['body', 'div', 'button']
+  });
+
+  const { score, breakdown } = scoreFingerprint(recorded, candidate);
+  assert.deepEqual(breakdown, {
+    tag: 1,
+    attributes: 0.17,      // id missing, one of three class tokens shared
+    text: 0.67,            // "Save" is contained in "Save changes"
+    labels: 0.3,           // One of three words shared
+    position: 0.5,         // 200px of the 400px range
+    domPath: 0.75
+  });
+  assert.equal(score, 0.47);
+});
+
+test('ranks the element closest to the recording highest', () => {
+  const moved = fingerprint({ ...recorded, attributes: { id: 'save-button', class: 'btn primary' } });
+  const other = fingerprint({ ...recorded, attributes: { id: 'cancel' }, text: 'Cancel', labels: ['Cancel'] });
+
+  assert.ok(scoreFingerprint(recorded, moved).score > scoreFingerprint(recorded, other).score);
+});
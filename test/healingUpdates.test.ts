@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectHealingSuggestions, applyHealingSuggestions, describeSuggestionTarget } from '../src/healing/healingUpdates';
+import { ObjectRepositoryManager } from '../src/repository/objectRepository';
+import { ExecutionResult, HealingEvent, PlatformType } from '../src/types';
+
+function run(name: string, healing: HealingEvent[]): ExecutionResult {
+  return { testCaseId: name, name, status: 'passed', startTime: 0, endTime: 0, duration: 0, steps: [], healing };
+}
+
+function event(fields: Partial<HealingEvent>): HealingEvent {
+  return {
+    timestamp: 0,
+    strategy: 'text',
+    originalLocator: { type: 'css', value: '#old' },
+    healedLocator: { type: 'text', value: 'Save' },
+    ...fields
+  };
+}
+
+function withTempDir(body: (dir: string) => void): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-healing-'));
+  try {
+    body(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('groups events by object, step or locator and keeps the latest healing', () => {
+  const suggestions = collectHealingSuggestions([
+    run('login', [
+      event({ objectId: 'obj-1', objectName: 'saveButton', testFile: 'login.json', actionId: 'a1' }),
+      event({ testFile: 'login.json', actionId: 'a2', originalLocator: { type: 'id', value: 'user' } }),
+      event({ healedLocator: undefined })
+    ]),
+    run('checkout', [
+      event({ objectId: 'obj-1', strategy: 'fingerprint', healedLocator: { type: 'css', value: '#save' }, confidence: 0.9 }),
+      event({ originalLocator: { type: 'xpath', value: '//a' } })
+    ]),
+    run('login', [event({ objectId: 'obj-1', healedLocator: { type: 'css', value: '#save-2' } })])
+  ]);
+
+  assert.equal(suggestions.length, 3);
+
+  const [object, step, locator] = suggestions;
+  assert.equal(object.number, 1);
+  assert.equal(object.testFile, undefined);
+  assert.equal(object.occurrences, 3);
+  assert.deepEqual(object.healedLocator, { type: 'css', value: '#save-2' });
+  assert.deepEqual(object.tests, ['login', 'checkout']);
+  assert.equal(describeSuggestionTarget(object), 'object saveButton');
+
+  assert.equal(step.number, 2);
+  assert.equal(describeSuggestionTarget(step), 'login.json#a2');
+
+  assert.equal(locator.number, 3);
+  assert.deepEqual(locator.originalLocator, { type: 'xpath', value: '//a' });
+  assert.equal(describeSuggestionTarget(locator), undefined);
+});
+
+test('writes a healed locator to the object and keeps the old ones as fallbacks', () => {
+  withTempDir(dir => {
+    const repositoryPath = path.join(dir, 'object-repository.json');
+    const repository = new ObjectRepositoryManager(repositoryPath);
+    const object = repository.addObject({
+      name: 'saveButton',
+      description: '',
+      platform: PlatformType.WEB,
+      locators: [{ type: 'css', value: '#old' }, { type: 'text', value: 'Save' }]
+    });
+
+    const suggestions = collectHealingSuggestions([run('login', [event({ objectId: object.id })])]);
+    assert.equal(applyHealingSuggestions(suggestions, repositoryPath), 1);
+
+    const reloaded = new ObjectRepositoryManager(repositoryPath);
+    assert.deepEqual(reloaded.getObject(object.id)!.locators, [{ type: 'text', value: 'Save' }, { type: 'css', value: '#old' }]);
+    assert.equal(reloaded.getHistory(object.id).pop()!.source, 'healing');
+  });
+});
+
+test('writes a healed locator to a nested step of the test case', () => {
+  withTempDir(dir => {
+    const testFile = path.join(dir, 'login.json');
+    fs.writeFileSync(testFile, JSON.stringify({
+      actions: [{
+        id: 'if-1',
+        type: 'if',
+        steps: [],
+        elseSteps: [{ id: 'a2', type: 'click', target: { type: 'css', value: '#old', fallbacks: [{ type: 'text', value: 'Save' }] } }]
+      }]
+    }));
+
+    const suggestions = collectHealingSuggestions([run('login', [event({ testFile, actionId: 'a2' })])]);
+    assert.equal(applyHealingSuggestions(suggestions), 1);
+
+    const saved = JSON.parse(fs.readFileSync(testFile, 'utf-8'));
+    assert.deepEqual(saved.actions[0].elseSteps[0].target, {
+      type: 'text',
+      value: 'Save',
+      fallbacks: [{ type: 'css', value: '#old' }]
+    });
+    assert.ok(saved.updatedAt > 0);
+  });
+});
+
+test('skips suggestions without a target and counts only applied ones', () => {
+  withTempDir(dir => {
+    const testFile = path.join(dir, 'login.json');
+    fs.writeFileSync(testFile, JSON.stringify({ actions: [] }));
+
+    const suggestions = collectHealingSuggestions([run('login', [
+      event({}),
+      event({ testFile, actionId: 'missing' }),
+      event({ objectId: 'missing' })
+    ])]);
+
+    assert.equal(applyHealingSuggestions(suggestions, path.join(dir, 'object-repository.json')), 0);
+  });
+});
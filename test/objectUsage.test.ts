@@ -0,0 +1,96 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ObjectUsageIndex } from '../src/repository/objectUsage';
+
+let dir: string;
+let recordings: string;
+let suites: string;
+
+function writeJson(file: string, content: any): string {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(content));
+  return file;
+}
+
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function buildIndex(): ObjectUsageIndex {
+  return new ObjectUsageIndex({ testDirs: [recordings], suitesDir: suites }).build();
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-usage-'));
+  recordings = path.join(dir, 'recordings');
+  suites = path.join(dir, 'test-suites');
+
+  const login = writeJson(path.join(recordings, 'login.json'), {
+    name: 'Login',
+    actions: [
+      { id: 'a1', type: 'click', objectId: 'button', description: 'Click on "Login Button"' },
+      {
+        id: 'a2',
+        type: 'if',
+        steps: [{ id: 'a3', type: 'type', objectId: 'field' }],
+        elseSteps: [{ id: 'a4', type: 'click', objectId: 'button', description: 'Click on "Login Button" again' }]
+      }
+    ]
+  });
+  writeJson(path.join(recordings, 'reports', 'ignored.json'), { actions: [{ id: 'x', objectId: 'button' }] });
+  fs.writeFileSync(path.join(recordings, 'broken.json'), '{');
+
+  writeJson(path.join(suites, 'smoke.json'), { name: 'Smoke', testCases: [{ path: login }] });
+  writeJson(path.join(suites, 'checkout', 'suite-config.json'), { name: 'Checkout' });
+  writeJson(path.join(suites, 'checkout', 'tests', 'pay.json'), {
+    actions: [{ id: 'b1', type: 'click', objectId: 'old-button' }]
+  });
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('indexes steps by object, nested steps and suites included', () => {
+  const index = buildIndex();
+  const loginFile = path.join(recordings, 'login.json');
+
+  assert.deepEqual(index.getUsages('button').map(u => [u.step, u.actionId, u.testName, u.suites]), [
+    ['1', 'a1', 'Login', ['Smoke']],
+    ['2.2', 'a4', 'Login', ['Smoke']]
+  ]);
+  assert.equal(index.getUsages('field')[0].step, '2.1');
+  assert.equal(index.getUsages('button')[0].testFile, loginFile);
+  assert.deepEqual(index.getUsages('old-button').map(u => [u.testName, u.suites]), [['pay', ['Checkout']]]);
+  assert.equal(index.isUsed('unused'), false);
+  assert.deepEqual(index.getReferencedObjectIds().sort(), ['button', 'field', 'old-button']);
+  assert.equal(index.getTestFiles().length, 2);
+});
+
+test('repointSteps moves every step to the kept object', () => {
+  const index = buildIndex();
+
+  assert.equal(index.repointSteps(['button', 'old-button'], 'field'), 3);
+
+  assert.equal(index.isUsed('button'), false);
+  assert.equal(index.getUsages('field').length, 4);
+  const saved = readJson(path.join(recordings, 'login.json'));
+  assert.equal(saved.actions[1].elseSteps[0].objectId, 'field');
+  assert.ok(saved.updatedAt > 0);
+});
+
+test('renameInSteps only rewrites quoted names of the renamed object', () => {
+  const loginFile = path.join(recordings, 'login.json');
+  const index = buildIndex();
+
+  assert.equal(index.renameInSteps('button', 'Login Button', 'Sign In'), 2);
+  assert.equal(index.renameInSteps('field', 'Login Button', 'Sign In'), 0);
+
+  const saved = readJson(loginFile);
+  assert.equal(saved.actions[0].description, 'Click on "Sign In"');
+  assert.equal(saved.actions[1].elseSteps[0].description, 'Click on "Sign In" again');
+  assert.equal(index.getUsages('button')[0].description, 'Click on "Sign In"');
+});
@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compareReports, compareReportFiles } from '../src/reporting/reportComparison';
+import { TestReport } from '../src/reporting/reporter';
+import { ExecutionResult, StepResult } from '../src/types';
+
+function result(name: string, status: ExecutionResult['status'], duration: number, steps: StepResult[] = [], extra: Partial<ExecutionResult> = {}): ExecutionResult {
+  return { testCaseId: name, name, status, duration, startTime: 0, endTime: duration, steps, ...extra };
+}
+
+function failedStep(action: string, error: string, children?: StepResult[]): StepResult {
+  return { actionId: action, status: 'failed', duration: 0, action, error, children };
+}
+
+function passedStep(action: string, children?: StepResult[]): StepResult {
+  return { actionId: action, status: 'passed', duration: 0, action, children };
+}
+
+function report(results: ExecutionResult[], timestamp: number = 0): TestReport {
+  const passed = results.filter(r => r.status === 'passed').length;
+  return {
+    summary: {
+      totalTests: results.length,
+      passed,
+      failed: results.length - passed,
+      skipped: 0,
+      totalDuration: 0,
+      passRate: results.length ? (passed / results.length) * 100 : 0,
+      timestamp
+    },
+    results
+  };
+}
+
+test('finds newly failing and newly passing tests', () => {
+  const comparison = compareReports(
+    report([result('login', 'passed', 100), result('checkout', 'failed', 100, [], { error: 'old' })]),
+    report([result('login', 'failed', 100, [], { error: 'timeout' }), result('checkout', 'passed', 100)])
+  );
+
+  assert.deepEqual(comparison.newlyFailing, [{ test: 'login', error: 'timeout' }]);
+  assert.deepEqual(comparison.newlyPassing, ['checkout']);
+});
+
+test('lists tests only in one of the reports', () => {
+  const comparison = compareReports(
+    report([result('login', 'passed', 100), result('legacy', 'passed', 100)]),
+    report([result('login', 'passed', 100), result('search', 'passed', 100)])
+  );
+
+  assert.deepEqual(comparison.added, ['search']);
+  assert.deepEqual(comparison.removed, ['legacy']);
+});
+
+test('reports changed step errors, nested steps included', () => {
+  const comparison = compareReports(
+    report([result('login', 'failed', 100, [passedStep('open'), failedStep('click', 'not found')])]),
+    report([result('login', 'failed', 100, [
+      passedStep('open'),
+      failedStep('click', 'not visible'),
+      failedStep('call', 'nested', [passedStep('type'), failedStep('assert', 'mismatch')])
+    ])])
+  );
+
+  assert.deepEqual(comparison.stepErrorChanges, [
+    { test: 'login', step: '2', action: 'click', before: 'not found', after: 'not visible' },
+    { test: 'login', step: '3', action: 'call', before: undefined, after: 'nested' },
+    { test: 'login', step: '3.2', action: 'assert', before: undefined, after: 'mismatch' }
+  ]);
+});
+
+test('reports a step that no longer fails', () => {
+  const comparison = compareReports(
+    report([result('login', 'failed', 100, [failedStep('click', 'not found')])]),
+    report([result('login', 'passed', 100, [passedStep('click')])])
+  );
+
+  assert.deepEqual(comparison.stepErrorChanges, [
+    { test: 'login', step: '1', action: 'click', before: 'not found', after: undefined }
+  ]);
+});
+
+test('reports duration changes above both thresholds, largest first', () => {
+  const comparison = compareReports(
+    report([result('a', 'passed', 2000), result('b', 'passed', 2000), result('c', 'passed', 100), result('d', 'passed', 10000)]),
+    report([result('a', 'passed', 4000), result('b', 'passed', 8000), result('c', 'passed', 900), result('d', 'passed', 12000)])
+  );
+
+  assert.deepEqual(comparison.durationChanges, [
+    { test: 'b', before: 2000, after: 8000, change: 3 },
+    { test: 'a', before: 2000, after: 4000, change: 1 }
+  ]);
+
+  const strict = compareReports(
+    report([result('c', 'passed', 100)]),
+    report([result('c', 'passed', 900)]),
+    { minDurationDelta: 500, durationThreshold: 2 }
+  );
+  assert.equal(strict.durationChanges[0].test, 'c');
+});
+
+test('matches matrix results per browser', () => {
+  const comparison = compareReports(
+    report([result('login', 'passed', 100, [], { browser: 'chromium' }), result('login', 'passed', 100, [], { browser: 'firefox' })]),
+    report([result('login', 'passed', 100, [], { browser: 'chromium' }), result('login', 'failed', 100, [], { browser: 'firefox' })])
+  );
+
+  assert.deepEqual(comparison.newlyFailing, [{ test: 'login [firefox]', error: undefined }]);
+});
+
+test('compareReportFiles adds the summary of each file', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-compare-'));
+  const baselinePath = path.join(dir, 'baseline.json');
+  const currentPath = path.join(dir, 'current.json');
+  fs.writeFileSync(baselinePath, JSON.stringify(report([result('login', 'failed', 100)], 1)));
+  fs.writeFileSync(currentPath, JSON.stringify(report([result('login', 'passed', 100)], 2)));
+
+  try {
+    const comparison = compareReportFiles(baselinePath, currentPath);
+    assert.deepEqual(comparison.baseline, { path: baselinePath, timestamp: 1, passRate: 0 });
+    assert.deepEqual(comparison.current, { path: currentPath, timestamp: 2, passRate: 100 });
+    assert.deepEqual(comparison.newlyPassing, ['login']);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
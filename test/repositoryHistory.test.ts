@@ -0,0 +1,100 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ObjectRepositoryManager } from '../src/repository/objectRepository';
+import { RepositoryHistory } from '../src/repository/repositoryHistory';
+import { PlatformType } from '../src/types';
+
+let dir: string;
+let repositoryPath: string;
+let repository: ObjectRepositoryManager;
+
+function addButton(name: string = 'saveButton') {
+  return repository.addObject({
+    name,
+    description: '',
+    platform: PlatformType.WEB,
+    locators: [{ type: 'css', value: '#save' }]
+  });
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-repo-history-'));
+  repositoryPath = path.join(dir, 'object-repository.json');
+  repository = new ObjectRepositoryManager(repositoryPath);
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('numbers versions per object next to the repository file', () => {
+  const save = addButton();
+  const cancel = addButton('cancelButton');
+  repository.setChangeSource('cli');
+  repository.updateObject(save.id, { locators: [{ type: 'text', value: 'Save' }] });
+
+  const history = repository.getHistory(save.id);
+  assert.deepEqual(history.map(change => [change.version, change.action, change.source]), [
+    [1, 'create', 'api'],
+    [2, 'update', 'cli']
+  ]);
+  assert.deepEqual(history[1].oldLocators, [{ type: 'css', value: '#save' }]);
+  assert.deepEqual(history[1].newLocators, [{ type: 'text', value: 'Save' }]);
+  assert.equal(repository.getHistory(cancel.id)[0].version, 1);
+  assert.ok(fs.existsSync(path.join(dir, 'object-repository.history.jsonl')));
+});
+
+test('skips updates that change nothing', () => {
+  const save = addButton();
+  repository.updateObject(save.id, { name: 'saveButton' });
+
+  assert.equal(repository.getHistory(save.id).length, 1);
+});
+
+test('continues the version numbers of an existing history file', () => {
+  const save = addButton();
+  repository.updateObject(save.id, { description: 'first' });
+
+  const history = new RepositoryHistory(repositoryPath);
+  const change = history.record({ objectId: save.id, objectName: save.name, source: 'api', action: 'update' });
+  history.record({ objectId: 'other', objectName: 'other', source: 'api', action: 'create' });
+  fs.appendFileSync(history.getFilePath(), '{not json\n');
+
+  assert.equal(change.version, 3);
+  assert.deepEqual(history.load(save.id).map(c => c.version), [1, 2, 3]);
+  assert.equal(history.load().length, 4);
+});
+
+test('rolls an object back to an earlier version', () => {
+  const save = addButton();
+  repository.updateObject(save.id, { locators: [{ type: 'text', value: 'Save' }], description: 'changed' });
+
+  const restored = repository.rollbackObject(save.id, 1);
+
+  assert.deepEqual(restored.locators, [{ type: 'css', value: '#save' }]);
+  assert.equal(restored.description, '');
+  const last = repository.getHistory(save.id).pop()!;
+  assert.deepEqual([last.version, last.action, last.note], [3, 'rollback', 'to version 1']);
+});
+
+test('restores a deleted object', () => {
+  const save = addButton();
+  repository.deleteObject(save.id);
+
+  assert.throws(() => repository.rollbackObject(save.id, 2), /deleted the object/);
+  repository.rollbackObject(save.id, 1);
+
+  assert.equal(new ObjectRepositoryManager(repositoryPath).getObject(save.id)!.name, 'saveButton');
+});
+
+test('refuses unknown versions and name clashes', () => {
+  const save = addButton();
+  repository.renameObject(save.id, 'storeButton');
+  addButton('saveButton');
+
+  assert.throws(() => repository.rollbackObject(save.id, 9), /Version 9 not found/);
+  assert.throws(() => repository.rollbackObject(save.id, 1), /Another object is already named "saveButton"/);
+});
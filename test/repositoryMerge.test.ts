@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeRepositories, resolveConflict, resolveAllConflicts, unresolvedConflicts, describeMergeValue } from '../src/repository/repositoryMerge';
+import { Repository, UIObject, ObjectFolder } from '../src/repository/objectRepository';
+import { PlatformType } from '../src/types';
+
+function object(id: string, fields: Partial<UIObject> = {}): UIObject {
+  return {
+    id,
+    name: id,
+    description: '',
+    platform: PlatformType.WEB,
+    locators: [{ type: 'css', value: `#${id}` }],
+    createdAt: 0,
+    updatedAt: 0,
+    ...fields
+  };
+}
+
+function repository(objects: UIObject[], folders: ObjectFolder[] = []): Repository {
+  return {
+    id: 'repo',
+    name: 'repo',
+    description: '',
+    objects: Object.fromEntries(objects.map(o => [o.id, o])),
+    folders: Object.fromEntries(folders.map(f => [f.id, f])),
+    version: '1.0.0',
+    createdAt: 0,
+    updatedAt: 0
+  };
+}
+
+function folder(id: string, objects: string[]): ObjectFolder {
+  return { id, name: id, description: '', objects, createdAt: 0 };
+}
+
+test('takes fields changed on one side only', () => {
+  const base = repository([object('save', { attributes: { text: 'Save' } })]);
+  const ours = repository([object('save', { description: 'ours', attributes: { text: 'Save' } })]);
+  const theirs = repository([object('save', {
+    locators: [{ type: 'text', value: 'Save' }],
+    attributes: { text: 'Save', type: 'submit' },
+    updatedAt: 5
+  })]);
+
+  const result = mergeRepositories(base, ours, theirs);
+  const merged = result.merged.objects.save;
+
+  assert.deepEqual(result.conflicts, []);
+  assert.deepEqual(result.updated, ['save']);
+  assert.equal(merged.description, 'ours');
+  assert.deepEqual(merged.locators, [{ type: 'text', value: 'Save' }]);
+  assert.deepEqual(merged.attributes, { text: 'Save', type: 'submit' });
+  assert.equal(merged.updatedAt, 5);
+  assert.equal(ours.objects.save.description, 'ours');
+  assert.equal(ours.objects.save.attributes!.type, undefined);
+});
+
+test('reports fields changed differently on both sides and keeps ours', () => {
+  const base = repository([object('save')]);
+  const ours = repository([object('save', { locators: [{ type: 'id', value: 'save-ours' }] })]);
+  const theirs = repository([object('save', { locators: [{ type: 'id', value: 'save-theirs' }] })]);
+
+  const result = mergeRepositories(base, ours, theirs);
+
+  assert.equal(result.conflicts.length, 1);
+  assert.equal(result.conflicts[0].field, 'locators');
+  assert.deepEqual(result.conflicts[0].base, [{ type: 'css', value: '#save' }]);
+  assert.equal(describeMergeValue('locators', result.conflicts[0].theirs), 'id=save-theirs');
+  assert.deepEqual(result.merged.objects.save.locators, [{ type: 'id', value: 'save-ours' }]);
+
+  resolveConflict(result, result.conflicts[0], 'theirs');
+  assert.deepEqual(result.merged.objects.save.locators, [{ type: 'id', value: 'save-theirs' }]);
+  assert.deepEqual(unresolvedConflicts(result), []);
+});
+
+test('without a base every difference is a conflict', () => {
+  const ours = repository([object('save', { description: 'ours', attributes: { text: 'Save' } })]);
+  const theirs = repository([object('save', { description: 'theirs' }), object('cancel')]);
+
+  const result = mergeRepositories(undefined, ours, theirs);
+
+  assert.equal(result.hasBase, false);
+  assert.deepEqual(result.added, ['cancel']);
+  assert.deepEqual(result.conflicts.map(c => c.field), ['description', 'attributes.text']);
+
+  resolveAllConflicts(result, 'theirs');
+  assert.equal(result.merged.objects.save.description, 'theirs');
+  assert.deepEqual(result.merged.objects.save.attributes, {});
+});
+
+test('deletes objects they deleted and we did not touch', () => {
+  const base = repository([object('save'), object('cancel')], [folder('buttons', ['save', 'cancel'])]);
+  const ours = repository([object('save'), object('cancel')], [folder('buttons', ['save', 'cancel'])]);
+  const theirs = repository([object('save')], [folder('buttons', ['save'])]);
+
+  const result = mergeRepositories(base, ours, theirs);
+
+  assert.deepEqual(result.deleted, ['cancel']);
+  assert.equal(result.merged.objects.cancel, undefined);
+  assert.deepEqual(result.merged.folders.buttons.objects, ['save']);
+});
+
+test('an object deleted on one side and modified on the other is a conflict', () => {
+  const base = repository([object('save'), object('cancel')]);
+  const ours = repository([object('save', { description: 'edited' })]);
+  const theirs = repository([object('cancel', { name: 'cancelButton' })]);
+
+  const result = mergeRepositories(base, ours, theirs);
+  const [weEdited, theyEdited] = result.conflicts;
+
+  assert.deepEqual([weEdited.objectId, weEdited.field, weEdited.theirs], ['save', 'object', undefined]);
+  assert.equal(describeMergeValue('object', weEdited.theirs), '(deleted)');
+  assert.deepEqual([theyEdited.objectId, theyEdited.field, theyEdited.ours], ['cancel', 'object', undefined]);
+  assert.equal(describeMergeValue('object', theyEdited.theirs), 'cancelButton: css=#cancel');
+  assert.ok(result.merged.objects.save);
+  assert.equal(result.merged.objects.cancel, undefined);
+
+  resolveConflict(result, weEdited, 'theirs');
+  resolveConflict(result, theyEdited, 'theirs');
+  assert.equal(result.merged.objects.save, undefined);
+  assert.equal(result.merged.objects.cancel.name, 'cancelButton');
+});
+
+test('an object we deleted stays deleted when they did not change it', () => {
+  const base = repository([object('save')]);
+
+  const result = mergeRepositories(base, repository([]), repository([object('save')]));
+
+  assert.deepEqual(result.conflicts, []);
+  assert.equal(result.merged.objects.save, undefined);
+});
+
+test('combines folders and drops objects that did not survive', () => {
+  const base = repository([object('save')]);
+  const ours = repository([object('save')], [folder('buttons', ['save']), folder('old', ['gone'])]);
+  const theirs = repository([object('save'), object('cancel')], [
+    folder('buttons', ['cancel']),
+    folder('dialogs', ['cancel'])
+  ]);
+
+  const { merged } = mergeRepositories(base, ours, theirs);
+
+  assert.deepEqual(merged.folders.buttons.objects, ['save', 'cancel']);
+  assert.deepEqual(merged.folders.dialogs.objects, ['cancel']);
+  assert.deepEqual(merged.folders.old.objects, []);
+});
@@ -0,0 +1,110 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RunHistory } from '../src/reporting/runHistory';
+import { ExecutionResult, BrowserName } from '../src/types';
+
+let dir: string;
+let history: RunHistory;
+
+function result(name: string, status: ExecutionResult['status'], duration: number, browser?: BrowserName): ExecutionResult {
+  return { testCaseId: name, name, status, duration, startTime: 0, endTime: duration, steps: [], browser };
+}
+
+function recordRuns(suiteName: string, runs: ExecutionResult[][]): void {
+  for (const results of runs) {
+    history.record({ suiteName, results });
+  }
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-history-'));
+  history = new RunHistory(path.join(dir, 'reports', 'history.jsonl'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('records slim results and loads them back', () => {
+  const run = { ...result('login', 'failed', 1200), error: 'boom', logs: [] };
+  history.record({ suiteName: 'smoke', environment: 'staging', results: [run] });
+
+  const [record] = history.load();
+  assert.equal(record.suiteName, 'smoke');
+  assert.equal(record.environment, 'staging');
+  assert.ok(record.runId);
+  assert.deepEqual(record.results, [
+    { testCaseId: 'login', name: 'login', status: 'failed', duration: 1200, startTime: 0, error: 'boom' }
+  ]);
+});
+
+test('skips unreadable lines', () => {
+  recordRuns('smoke', [[result('login', 'passed', 100)]]);
+  fs.appendFileSync(path.join(dir, 'reports', 'history.jsonl'), '{not json\n');
+
+  assert.equal(history.load().length, 1);
+});
+
+test('computes pass rate, flakiness and growing duration per test', () => {
+  recordRuns('smoke', [
+    [result('login', 'passed', 1000), result('checkout', 'passed', 500)],
+    [result('login', 'failed', 2000), result('checkout', 'passed', 500)],
+    [result('login', 'passed', 3000), result('checkout', 'passed', 500)]
+  ]);
+
+  const report = history.analyzeTrends();
+  const login = report.tests.find(t => t.key === 'login')!;
+  const checkout = report.tests.find(t => t.key === 'checkout')!;
+
+  assert.equal(report.runs.length, 3);
+  assert.equal(report.runs[1].passRate, 50);
+  assert.equal(login.runs, 3);
+  assert.ok(Math.abs(login.passRate - 200 / 3) < 1e-9);
+  assert.equal(login.averageDuration, 2000);
+  assert.equal(login.flakiness, 1);
+  assert.equal(login.durationGrowth, 1);
+  assert.equal(login.lastStatus, 'passed');
+  assert.equal(checkout.flakiness, 0);
+  assert.equal(checkout.durationGrowth, 0);
+
+  assert.deepEqual(report.slowest.map(t => t.key), ['login', 'checkout']);
+  assert.deepEqual(report.growing.map(t => t.key), ['login']);
+  assert.deepEqual(report.flaky.map(t => t.key), ['login']);
+});
+
+test('needs three runs before a test counts as growing', () => {
+  recordRuns('smoke', [[result('login', 'passed', 1000)], [result('login', 'passed', 5000)]]);
+
+  assert.deepEqual(history.analyzeTrends().growing, []);
+});
+
+test('filters by suite and keeps only the last runs', () => {
+  recordRuns('smoke', [[result('login', 'failed', 100)], [result('login', 'passed', 100)]]);
+  recordRuns('nightly', [[result('report', 'passed', 100)]]);
+  recordRuns('smoke', [[result('login', 'passed', 100)]]);
+
+  const smoke = history.analyzeTrends({ suite: 'smoke' });
+  assert.equal(smoke.runs.length, 3);
+  assert.deepEqual(smoke.tests.map(t => t.key), ['login']);
+
+  const lastTwo = history.analyzeTrends({ suite: 'smoke', last: 2 });
+  assert.equal(lastTwo.tests[0].passRate, 100);
+  assert.deepEqual(lastTwo.flaky, []);
+});
+
+test('tracks each browser of a matrix run separately', () => {
+  recordRuns('matrix', [[result('login', 'passed', 100, 'chromium'), result('login', 'failed', 100, 'firefox')]]);
+
+  const keys = history.analyzeTrends().tests.map(t => t.key);
+  assert.deepEqual(keys, ['login [chromium]', 'login [firefox]']);
+});
+
+test('reports no runs for a missing history file', () => {
+  const report = history.analyzeTrends();
+
+  assert.deepEqual(report.runs, []);
+  assert.deepEqual(report.tests, []);
+});
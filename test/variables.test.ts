@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VariableStore, parseVariableAssignments } from '../src/executor/variables';
+
+test('later scopes override earlier ones', () => {
+  const store = new VariableStore();
+  store.setScope('test', { user: 'test', host: 'localhost' });
+  store.setScope('suite', { user: 'suite' });
+  store.setScope('environment', { user: 'environment' });
+  store.setScope('data', { user: 'data' });
+  store.set('user', 'run');
+
+  assert.equal(store.get('user'), 'run');
+  assert.equal(store.get('host'), 'localhost');
+
+  store.setScope('call', { user: 'call' });
+  assert.equal(store.get('user'), 'call');
+
+  store.set('user', 'step', 'step');
+  assert.equal(store.get('user'), 'step');
+});
+
+test('stored values rank above call params', () => {
+  const store = new VariableStore();
+  store.setScope('call', { orderId: 'from-call' });
+  store.set('orderId', 'from-store', 'stored');
+
+  assert.equal(store.get('orderId'), 'from-store');
+});
+
+test('setScope replaces the whole scope', () => {
+  const store = new VariableStore();
+  store.setScope('call', { a: 1, b: 2 });
+  store.setScope('call', { a: 3 });
+
+  assert.deepEqual(store.getScope('call'), { a: 3 });
+  assert.equal(store.has('b'), false);
+});
+
+test('resolves dotted paths and env lookups', () => {
+  const store = new VariableStore();
+  store.set('user', { email: 'bob@example.com', address: null });
+  process.env.QA_VARIABLES_TEST = 'from-env';
+
+  assert.equal(store.get('user.email'), 'bob@example.com');
+  assert.equal(store.get('user.address.city'), undefined);
+  assert.equal(store.get('env.QA_VARIABLES_TEST'), 'from-env');
+
+  delete process.env.QA_VARIABLES_TEST;
+});
+
+test('resolve keeps the type of a whole placeholder and interpolates the rest', () => {
+  const store = new VariableStore();
+  store.set('qty', 3);
+  store.set('user', { name: 'bob' });
+
+  assert.equal(store.resolve('${qty}'), 3);
+  assert.equal(store.resolve('${ qty } items'), '3 items');
+  assert.equal(store.resolve('user: ${user}'), 'user: {"name":"bob"}');
+  assert.deepEqual(store.resolve({ value: ['${user.name}', 'x'] }), { value: ['bob', 'x'] });
+  assert.throws(() => store.resolve('${missing}'), /Undefined variable: \$\{missing\}/);
+});
+
+test('hasPlaceholders looks into arrays and objects', () => {
+  const store = new VariableStore();
+
+  assert.equal(store.hasPlaceholders('plain'), false);
+  assert.equal(store.hasPlaceholders({ a: ['x', { b: '${y}' }] }), true);
+  assert.equal(store.hasPlaceholders(42), false);
+});
+
+test('parseVariableAssignments splits on the first equals sign', () => {
+  assert.deepEqual(parseVariableAssignments(['user=bob', ' url =http://host/?a=b', 'empty=']), {
+    user: 'bob',
+    url: 'http://host/?a=b',
+    empty: ''
+  });
+  assert.deepEqual(parseVariableAssignments(), {});
+});
+
+test('parseVariableAssignments rejects entries without a key', () => {
+  assert.throws(() => parseVariableAssignments(['novalue']), /Invalid variable assignment "novalue"/);
+  assert.throws(() => parseVariableAssignments(['=value']), /Invalid variable assignment/);
+});